@@ -10,9 +10,108 @@ export const config = {
     geminiTranscriptionModel: process.env.GEMINI_TRANSCRIPTION_MODEL || 'gemini-2.5-flash',
     // Model for fact-check analysis
     geminiAnalysisModel: process.env.GEMINI_ANALYSIS_MODEL || 'gemini-3-flash-preview',
+    // Analysis answers that do not match their JSON schema are sent back for repair this many times before the job fails
+    analysisRepairAttempts: parseInt(process.env.ANALYSIS_REPAIR_ATTEMPTS || '2', 10),
+    // Speech-to-text engine: 'gemini' (cloud) or 'whisper' (local binary, audio never leaves the server)
+    transcriptionProvider: process.env.TRANSCRIPTION_PROVIDER || 'gemini',
+    // Long audio is split into chunks transcribed in parallel, each retried on failure
+    transcriptionChunkConcurrency: parseInt(process.env.TRANSCRIPTION_CHUNK_CONCURRENCY || '3', 10),
+    transcriptionChunkRetries: parseInt(process.env.TRANSCRIPTION_CHUNK_RETRIES || '2', 10),
+    whisper: {
+        // 'whisper.cpp' (whisper-cli) or 'faster-whisper' (whisper-ctranslate2 / openai-whisper compatible CLI)
+        engine: process.env.WHISPER_ENGINE || 'whisper.cpp',
+        binary: process.env.WHISPER_BINARY || '',
+        // ggml model file for whisper.cpp, model name (base, small, large-v3, ...) for faster-whisper
+        model: process.env.WHISPER_MODEL || '',
+        threads: parseInt(process.env.WHISPER_THREADS || '4', 10),
+        timeoutSeconds: parseInt(process.env.WHISPER_TIMEOUT_SECONDS || '3600', 10),
+    },
+    // Downloaded media is converted to mono 16 kHz loudness-normalized audio before transcription
+    audioNormalization: {
+        enabled: process.env.NORMALIZE_AUDIO !== 'false',
+        denoise: process.env.DENOISE_AUDIO === 'true',
+        bitrateKbps: parseInt(process.env.NORMALIZED_AUDIO_BITRATE_KBPS || '32', 10),
+    },
+    // Silence is cut out before transcription so only speech is sent - timestamps stay on the original timeline
+    speechDetection: {
+        enabled: process.env.SKIP_SILENCE !== 'false',
+        noiseDb: parseInt(process.env.SILENCE_NOISE_DB || '-35', 10),
+        minSilenceSeconds: parseFloat(process.env.MIN_SILENCE_SECONDS || '1.5'),
+    },
+    // Optional visual stage: read captions, charts and screenshots shown in the video and fact-check them too
+    visualAnalysis: {
+        enabled: process.env.VISUAL_ANALYSIS === 'true', // default for requests that do not set analyzeVisuals
+        // 'gemini' (multimodal model) or 'tesseract' (local OCR binary)
+        reader: process.env.VISUAL_TEXT_READER || 'gemini',
+        frameIntervalSeconds: parseFloat(process.env.FRAME_INTERVAL_SECONDS || '3'),
+        sceneThreshold: parseFloat(process.env.SCENE_CHANGE_THRESHOLD || '0.3'),
+        maxFrames: parseInt(process.env.MAX_FRAMES || '40', 10),
+        tesseractBinary: process.env.TESSERACT_BINARY || 'tesseract',
+        tesseractLanguages: process.env.TESSERACT_LANGUAGES || 'eng', // e.g. 'eng+ara'
+    },
+    // Long transcripts are read in overlapping windows and claims verified in batches, so no answer hits the output limit
+    factCheck: {
+        windowChars: parseInt(process.env.FACT_CHECK_WINDOW_CHARS || '15000', 10),
+        windowOverlapChars: parseInt(process.env.FACT_CHECK_WINDOW_OVERLAP_CHARS || '1500', 10),
+        verifyBatchSize: parseInt(process.env.FACT_CHECK_BATCH_SIZE || '10', 10),
+        concurrency: parseInt(process.env.FACT_CHECK_CONCURRENCY || '3', 10), // extraction windows and verification batches in flight
+    },
+    // Evidence retrieved for each claim before the verdict - 'wikipedia' and 'web' need internet access, 'local' searches EVIDENCE_DIR
+    evidence: {
+        providers: (process.env.EVIDENCE_PROVIDERS || 'wikipedia,web,local').split(',').map(p => p.trim()).filter(Boolean),
+        maxPassagesPerClaim: parseInt(process.env.EVIDENCE_MAX_PASSAGES || '5', 10),
+        concurrency: parseInt(process.env.EVIDENCE_CONCURRENCY || '4', 10),
+        timeoutSeconds: parseInt(process.env.EVIDENCE_TIMEOUT_SECONDS || '10', 10),
+        // Brave Search API key for the 'web' provider
+        webSearchApiKey: process.env.WEB_SEARCH_API_KEY || '',
+        // Folder of .txt, .md and .json documents for the 'local' provider
+        localDir: process.env.EVIDENCE_DIR || '',
+    },
+    // Source URLs cited for verdicts are looked up - dead links are dropped, every source gets a credibility tier
+    sourceVerification: {
+        // Tried in order, the first that handles a URL checks it - empty disables the lookups
+        fetchers: (process.env.SOURCE_FETCHERS ?? 'wikipedia,http').split(',').map(f => f.trim()).filter(Boolean),
+        timeoutSeconds: parseInt(process.env.SOURCE_TIMEOUT_SECONDS || '8', 10),
+        concurrency: parseInt(process.env.SOURCE_CONCURRENCY || '4', 10),
+        keepDeadLinks: process.env.KEEP_DEAD_SOURCES === 'true', // flag them as unverified instead of dropping them
+        // Domains match themselves and their subdomains; 'gov' matches every .gov site
+        trustedDomains: (process.env.SOURCE_TRUSTED_DOMAINS || 'wikipedia.org,reuters.com,apnews.com,bbc.com,bbc.co.uk,afp.com,who.int,un.org,europa.eu,nature.com,science.org,gov,edu')
+            .split(',').map(d => d.trim().toLowerCase()).filter(Boolean),
+        lowDomains: (process.env.SOURCE_LOW_DOMAINS || 'blogspot.com,wordpress.com,medium.com,substack.com,facebook.com,x.com,twitter.com,tiktok.com,instagram.com,youtube.com,reddit.com,quora.com')
+            .split(',').map(d => d.trim().toLowerCase()).filter(Boolean),
+    },
     tempDir: process.env.TEMP_DIR || path.join(__dirname, '../../temp'),
-    // FFmpeg binary path - use system ffmpeg on Railway/Serv00, or local path for development
+    // FFmpeg location - a directory holding ffmpeg/ffprobe or the ffmpeg binary itself; empty uses the system PATH
     ffmpegPath: process.env.FFMPEG_PATH || '',
+    // Kill ffmpeg/ffprobe runs that take longer than this
+    ffmpegTimeoutSeconds: parseInt(process.env.FFMPEG_TIMEOUT_SECONDS || '600', 10),
+    // Maximum size (in MB) of a media file uploaded directly via /api/video/upload
+    maxUploadSizeMB: parseInt(process.env.MAX_UPLOAD_SIZE_MB || '200', 10),
+    // Allow file:// URLs to be processed from the server's filesystem (trusted deployments only)
+    allowLocalFiles: process.env.ALLOW_LOCAL_FILES === 'true',
+    // JSON file with per-platform yt-dlp profiles (cookies, proxy, user agent, ...) - see download-profiles.example.json
+    downloadProfilesFile: process.env.DOWNLOAD_PROFILES_FILE || '',
+    // Use subtitles published on the platform instead of AI transcription when available
+    preferCaptions: process.env.PREFER_CAPTIONS !== 'false',
+
+    // Preflight limits checked before any media is downloaded (0 = no limit)
+    limits: {
+        maxDurationSeconds: parseInt(process.env.MAX_DURATION_SECONDS || '3600', 10),
+        maxFilesizeMB: parseInt(process.env.MAX_FILESIZE_MB || '500', 10),
+        allowLive: process.env.ALLOW_LIVE_STREAMS === 'true',
+        allowAgeRestricted: process.env.ALLOW_AGE_RESTRICTED === 'true',
+    },
+    // Maximum number of videos expanded from a playlist, channel or multi-video post
+    maxBatchItems: parseInt(process.env.MAX_BATCH_ITEMS || '25', 10),
+    // Lets a request override the limits above via the X-Admin-Token header (empty = overrides disabled)
+    adminToken: process.env.ADMIN_TOKEN || '',
+
+    // Reuse transcriptions and analyses of videos that were already processed
+    cache: {
+        enabled: process.env.CACHE_ENABLED !== 'false',
+        ttlHours: parseInt(process.env.CACHE_TTL_HOURS || '24', 10), // 0 = never expire
+        maxEntries: parseInt(process.env.CACHE_MAX_ENTRIES || '500', 10),
+    },
 
     // Supported languages for transcription
     supportedLanguages: [
@@ -30,16 +129,4 @@ export const config = {
         { code: 'hi', name: 'Hindi', nativeName: 'हिन्दी' },
         { code: 'tr', name: 'Turkish', nativeName: 'Türkçe' },
     ],
-
-    // Supported platforms
-    supportedPlatforms: [
-        'youtube.com',
-        'youtu.be',
-        'facebook.com',
-        'fb.watch',
-        'instagram.com',
-        'twitter.com',
-        'x.com',
-        'tiktok.com',
-    ]
 };
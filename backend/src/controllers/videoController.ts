@@ -1,24 +1,73 @@
 import { Request, Response } from 'express';
+import fs from 'fs';
+import path from 'path';
 import { config } from '../config/config';
 import {
+    Claim,
     VideoData,
+    VideoMetadata,
     ProcessVideoRequest,
+    UploadVideoRequest,
     AnalyzeRequest,
-    VideoStatus
+    VideoStatus,
+    PreflightLimits,
+    MediaInfo,
+    CachedResult,
+    RenameSpeakersRequest,
+    EditTranscriptionRequest,
+    OnScreenTextReader,
+    TranscriptionProvider,
+    TranscriptionResult
 } from '../types';
 import {
     generateId,
-    extractPlatform,
-    isValidPlatformUrl,
     cleanupTempFiles
 } from '../utils/helpers';
-import { downloadVideo, checkYtDlpInstalled } from '../services/downloadService';
-import { transcribeAudio, checkGeminiConfigured } from '../services/transcriptionService';
+import { downloadVideo, probeVideo, checkYtDlpInstalled } from '../services/downloadService';
+import { getActiveEvidenceProviders } from '../services/evidenceService';
+import { normalizeAudio } from '../services/audioNormalizationService';
+import { checkFfmpegInstalled } from '../services/mediaService';
+import { checkMediaFileLimits, checkPreflightLimits, resolveLimits, PreflightError } from '../services/preflightService';
+import { findPlatform, getRegisteredPlatforms } from '../services/platformRegistry';
+import { cacheAnalysis, cacheTranscription, findIdentityForUrl, getCachedResult, rememberUrl } from '../services/resultCache';
+import { transcribeAudio, getTranscriptionProvider, getTranscriptionProviderNames } from '../services/transcriptionService';
+import { checkGeminiConfigured } from '../services/transcribers/geminiTranscriber';
 import { factCheckTranscription } from '../services/factCheckService';
+import { getSourceFetcherNames } from '../services/sourceVerificationService';
+import { prepareSpeechAudio, restoreTimeline } from '../services/speechDetectionService';
+import { translateSegments } from '../services/translationService';
+import { extractOnScreenText, getOnScreenTextReader, getOnScreenTextReaderNames } from '../services/visualTextService';
+import { AUTO_LANGUAGE, getLanguageName, isSameLanguage, isValidSpokenLanguage } from '../utils/language';
+import { segmentsToSrt, segmentsToVtt } from '../utils/subtitles';
+import { getMusicRanges, getSpeakerLabels, markMusicSegments, resolveSpeakerLabel, segmentsToText } from '../utils/transcript';
 
 // In-memory storage for video processing jobs
 const videoJobs: Map<string, VideoData> = new Map();
 
+// Transcript download formats: content type and file extension
+const TRANSCRIPT_FORMATS: Record<string, { contentType: string; extension: string }> = {
+    srt: { contentType: 'application/x-subrip; charset=utf-8', extension: 'srt' },
+    vtt: { contentType: 'text/vtt; charset=utf-8', extension: 'vtt' },
+    txt: { contentType: 'text/plain; charset=utf-8', extension: 'txt' },
+    json: { contentType: 'application/json; charset=utf-8', extension: 'json' },
+};
+
+// Options resolved from a process request for the background pipeline
+interface ProcessJobOptions {
+    language: string;       // response language
+    spokenLanguage: string; // language code or 'auto'
+    translate: boolean;
+    analyzeVisuals: boolean;
+    useCaptions: boolean;
+    limits: PreflightLimits;
+    expandPlaylists: boolean; // false for batch children - no nested batches
+    maxItems: number;
+    force: boolean;
+    reuseAnalysis: boolean;
+    transcriptionProvider?: string;
+    playlistIndex?: number;
+}
+
 /**
  * Get supported languages
  */
@@ -35,13 +84,11 @@ export function getLanguages(_req: Request, res: Response): void {
 export function getPlatforms(_req: Request, res: Response): void {
     res.json({
         success: true,
-        platforms: [
-            { name: 'YouTube', domains: ['youtube.com', 'youtu.be'] },
-            { name: 'Facebook', domains: ['facebook.com', 'fb.watch'] },
-            { name: 'Instagram', domains: ['instagram.com'] },
-            { name: 'Twitter/X', domains: ['twitter.com', 'x.com'] },
-            { name: 'TikTok', domains: ['tiktok.com'] },
-        ],
+        platforms: getRegisteredPlatforms().map(p => ({
+            id: p.id,
+            name: p.name,
+            domains: p.domains,
+        })),
     });
 }
 
@@ -50,20 +97,69 @@ export function getPlatforms(_req: Request, res: Response): void {
  */
 export async function getSystemStatus(_req: Request, res: Response): Promise<void> {
     const ytdlpInstalled = await checkYtDlpInstalled();
+    const ffmpegInstalled = await checkFfmpegInstalled();
     const geminiConfigured = await checkGeminiConfigured();
+    // An unknown TRANSCRIPTION_PROVIDER is reported, not thrown - the status endpoint is how it gets noticed
+    let transcriptionProvider: TranscriptionProvider | undefined;
+    let transcriptionError: string | undefined;
+    try {
+        transcriptionProvider = getTranscriptionProvider();
+    } catch (err) {
+        transcriptionError = err instanceof Error ? err.message : String(err);
+    }
+    const transcriptionConfigured = !transcriptionProvider
+        ? false
+        : transcriptionProvider.name === 'gemini'
+            ? geminiConfigured
+            : await transcriptionProvider.isConfigured();
+    let textReader: OnScreenTextReader | undefined;
+    let textReaderError: string | undefined;
+    try {
+        textReader = getOnScreenTextReader();
+    } catch (err) {
+        textReaderError = err instanceof Error ? err.message : String(err);
+    }
+    const offlineEvidence = await getActiveEvidenceProviders(false);
+    const onlineEvidence = await getActiveEvidenceProviders(true);
 
     res.json({
         success: true,
         status: {
             ytdlp: ytdlpInstalled,
+            ffmpeg: ffmpegInstalled,
             gemini: geminiConfigured,
-            ready: ytdlpInstalled && geminiConfigured,
+            transcription: {
+                provider: transcriptionProvider?.name ?? config.transcriptionProvider,
+                configured: transcriptionConfigured,
+                available: getTranscriptionProviderNames(),
+                error: transcriptionError,
+            },
+            visualAnalysis: {
+                enabledByDefault: config.visualAnalysis.enabled,
+                reader: textReader?.name ?? config.visualAnalysis.reader,
+                configured: textReader ? await textReader.isConfigured() : false,
+                available: getOnScreenTextReaderNames(),
+                error: textReaderError,
+            },
+            evidence: {
+                offline: offlineEvidence.map(p => p.name),
+                withInternet: onlineEvidence.map(p => p.name),
+            },
+            sourceVerification: {
+                fetchers: config.sourceVerification.fetchers,
+                available: getSourceFetcherNames(),
+            },
+            ready: ytdlpInstalled && ffmpegInstalled && geminiConfigured && !transcriptionError,
         },
         message: !ytdlpInstalled
             ? 'yt-dlp is not installed. Please install it: pip install yt-dlp'
-            : !geminiConfigured
-                ? 'Gemini API key not configured. Please set GEMINI_API_KEY in .env'
-                : 'System ready',
+            : !ffmpegInstalled
+                ? 'FFmpeg/FFprobe not found. Install FFmpeg or set FFMPEG_PATH in .env'
+                : !geminiConfigured
+                    ? 'Gemini API key not configured. Please set GEMINI_API_KEY in .env'
+                    : transcriptionError
+                        ? `${transcriptionError}. Check TRANSCRIPTION_PROVIDER in .env`
+                        : 'System ready',
     });
 }
 
@@ -72,7 +168,21 @@ export async function getSystemStatus(_req: Request, res: Response): Promise<voi
  */
 export async function processVideo(req: Request, res: Response): Promise<void> {
     try {
-        const { url, language } = req.body as ProcessVideoRequest;
+        const {
+            url,
+            responseLanguage,
+            language: legacyLanguage,
+            spokenLanguage = AUTO_LANGUAGE,
+            translateTranscript = false,
+            useCaptions = config.preferCaptions,
+            limits: limitOverrides,
+            maxItems = config.maxBatchItems,
+            force = false,
+            reuseAnalysis = false,
+            transcriptionProvider,
+            analyzeVisuals = config.visualAnalysis.enabled,
+        } = req.body as ProcessVideoRequest;
+        const language = responseLanguage || legacyLanguage;
 
         // Validate input
         if (!url) {
@@ -81,33 +191,72 @@ export async function processVideo(req: Request, res: Response): Promise<void> {
         }
 
         if (!language) {
-            res.status(400).json({ success: false, error: 'Language is required' });
+            res.status(400).json({ success: false, error: 'Response language is required' });
             return;
         }
 
         // Validate URL
-        if (!isValidPlatformUrl(url)) {
+        const platform = findPlatform(url);
+        if (!platform) {
             res.status(400).json({
                 success: false,
-                error: 'Unsupported platform. Supported: YouTube, Facebook, Instagram, Twitter/X, TikTok'
+                error: `Unsupported platform. Supported: ${getRegisteredPlatforms().map(p => p.name).join(', ')}`
             });
             return;
         }
 
-        // Validate language
+        // Validate languages
         const validLanguage = config.supportedLanguages.find(l => l.code === language);
         if (!validLanguage) {
             res.status(400).json({ success: false, error: 'Unsupported language' });
             return;
         }
 
+        if (typeof spokenLanguage !== 'string' || !isValidSpokenLanguage(spokenLanguage)) {
+            res.status(400).json({ success: false, error: `spokenLanguage must be '${AUTO_LANGUAGE}' or a language code such as 'ar'` });
+            return;
+        }
+
+        // Limit overrides are admin-only
+        if (limitOverrides !== undefined && (!config.adminToken || req.get('x-admin-token') !== config.adminToken)) {
+            res.status(403).json({ success: false, error: 'Limit overrides require a valid admin token' });
+            return;
+        }
+
+        let limits: PreflightLimits;
+        try {
+            limits = resolveLimits(limitOverrides);
+        } catch (err) {
+            res.status(400).json({ success: false, error: err instanceof Error ? err.message : 'Invalid limits' });
+            return;
+        }
+
+        // Validate batch size
+        if (!Number.isInteger(maxItems) || maxItems < 1) {
+            res.status(400).json({ success: false, error: 'maxItems must be a positive integer' });
+            return;
+        }
+
+        // Validate transcription provider
+        if (transcriptionProvider !== undefined && !getTranscriptionProviderNames().includes(transcriptionProvider)) {
+            res.status(400).json({
+                success: false,
+                error: `Unknown transcription provider. Available: ${getTranscriptionProviderNames().join(', ')}`
+            });
+            return;
+        }
+
         // Create job
         const videoId = generateId();
         const videoData: VideoData = {
             id: videoId,
+            source: 'url',
             url,
-            platform: extractPlatform(url),
+            platform: platform.name,
             language,
+            spokenLanguage,
+            translate: translateTranscript === true,
+            analyzeVisuals: analyzeVisuals === true,
             status: 'pending',
             progress: 0,
             statusMessage: 'Initializing...',
@@ -124,7 +273,19 @@ export async function processVideo(req: Request, res: Response): Promise<void> {
         });
 
         // Process in background
-        processVideoAsync(videoId, url, language);
+        processVideoAsync(videoId, url, {
+            language,
+            spokenLanguage,
+            translate: translateTranscript === true,
+            analyzeVisuals: analyzeVisuals === true,
+            useCaptions,
+            limits,
+            expandPlaylists: true,
+            maxItems: Math.min(maxItems, config.maxBatchItems),
+            force: force === true,
+            reuseAnalysis: reuseAnalysis === true,
+            transcriptionProvider,
+        });
 
     } catch (error) {
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -133,58 +294,728 @@ export async function processVideo(req: Request, res: Response): Promise<void> {
 }
 
 /**
- * Background video processing
+ * Upload a media file directly - skips download and goes straight to transcription
  */
-async function processVideoAsync(videoId: string, url: string, language: string): Promise<void> {
-    const updateStatus = (status: VideoStatus, progress: number, message: string) => {
+export async function uploadVideo(req: Request, res: Response): Promise<void> {
+    const file = req.file;
+
+    try {
+        const {
+            responseLanguage,
+            language: legacyLanguage,
+            spokenLanguage = AUTO_LANGUAGE,
+            translateTranscript,
+            transcriptionProvider,
+            analyzeVisuals = config.visualAnalysis.enabled,
+        } = req.body as UploadVideoRequest;
+        const language = responseLanguage || legacyLanguage;
+
+        // Validate input
+        if (!file) {
+            res.status(400).json({ success: false, error: 'Media file is required' });
+            return;
+        }
+
+        if (!language) {
+            fs.rmSync(file.path, { force: true });
+            res.status(400).json({ success: false, error: 'Response language is required' });
+            return;
+        }
+
+        // Validate languages
+        const validLanguage = config.supportedLanguages.find(l => l.code === language);
+        if (!validLanguage) {
+            fs.rmSync(file.path, { force: true });
+            res.status(400).json({ success: false, error: 'Unsupported language' });
+            return;
+        }
+
+        if (!isValidSpokenLanguage(spokenLanguage)) {
+            fs.rmSync(file.path, { force: true });
+            res.status(400).json({ success: false, error: `spokenLanguage must be '${AUTO_LANGUAGE}' or a language code such as 'ar'` });
+            return;
+        }
+
+        // Validate transcription provider
+        if (transcriptionProvider && !getTranscriptionProviderNames().includes(transcriptionProvider)) {
+            fs.rmSync(file.path, { force: true });
+            res.status(400).json({
+                success: false,
+                error: `Unknown transcription provider. Available: ${getTranscriptionProviderNames().join(', ')}`
+            });
+            return;
+        }
+
+        // Move the upload into the job's temp directory so cleanup works the same as for downloads
+        const videoId = generateId();
+        const videoDir = path.join(config.tempDir, videoId);
+        fs.mkdirSync(videoDir, { recursive: true });
+        const audioPath = path.join(videoDir, `audio${path.extname(file.filename)}`);
+        fs.renameSync(file.path, audioPath);
+
+        // Create job
+        const videoData: VideoData = {
+            id: videoId,
+            source: 'upload',
+            fileName: file.originalname,
+            platform: 'Upload',
+            title: file.originalname,
+            language,
+            spokenLanguage,
+            translate: translateTranscript === true || translateTranscript === 'true',
+            analyzeVisuals: analyzeVisuals === true || analyzeVisuals === 'true',
+            status: 'pending',
+            progress: 0,
+            statusMessage: 'Initializing...',
+            audioPath,
+            createdAt: new Date(),
+        };
+
+        videoJobs.set(videoId, videoData);
+
+        // Return immediately with job ID
+        res.json({
+            success: true,
+            id: videoId,
+            message: 'Upload received, transcription started',
+        });
+
+        // Check and transcribe in background
+        processUploadAsync(videoId, audioPath, spokenLanguage, transcriptionProvider || undefined);
+
+    } catch (error) {
+        if (file) {
+            fs.rmSync(file.path, { force: true });
+        }
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        res.status(500).json({ success: false, error: errorMessage });
+    }
+}
+
+/**
+ * Update the status of a job
+ */
+function updateStatus(videoId: string, status: VideoStatus, progress: number, message: string): void {
+    const job = videoJobs.get(videoId);
+    if (job) {
+        job.status = status;
+        job.progress = progress;
+        job.statusMessage = message;
+    }
+}
+
+/**
+ * Mark a job as failed
+ */
+function failJob(videoId: string, error: unknown): void {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    const job = videoJobs.get(videoId);
+    if (job) {
+        job.status = 'error';
+        job.error = errorMessage;
+        job.errorCode = error instanceof PreflightError ? error.code : undefined;
+        job.statusMessage = `Error: ${errorMessage}`;
+    }
+}
+
+/**
+ * Background processing of an upload - its duration is only known once FFprobe reads the file
+ */
+async function processUploadAsync(videoId: string, audioPath: string, spokenLanguage: string, providerName?: string): Promise<void> {
+    try {
+        updateStatus(videoId, 'transcribing', 5, 'Checking media length...');
+        const duration = await checkMediaFileLimits(audioPath, config.limits);
         const job = videoJobs.get(videoId);
         if (job) {
-            job.status = status;
-            job.progress = progress;
-            job.statusMessage = message;
+            job.duration = duration;
         }
-    };
+    } catch (error) {
+        failJob(videoId, error);
+        return;
+    }
+
+    await transcribeVideoAsync(videoId, audioPath, spokenLanguage, providerName);
+}
+
+/**
+ * Background video processing
+ */
+async function processVideoAsync(videoId: string, url: string, options: ProcessJobOptions): Promise<void> {
+    const { useCaptions, limits } = options;
 
     try {
-        // Step 1: Download video
-        updateStatus('downloading', 5, 'Starting download...');
+        // URLs seen before resolve to a cached result without probing again
+        const knownIdentity = findIdentityForUrl(url, options.playlistIndex);
+        if (knownIdentity && tryCachedResult(videoId, knownIdentity, options)) {
+            return;
+        }
+
+        // Step 1: Preflight - reject videos over the limits before downloading anything
+        updateStatus(videoId, 'downloading', 5, 'Fetching video information...');
+        // A batch child only needs to know whether its URL holds more than one video
+        const info = await probeVideo(url, options.playlistIndex, options.expandPlaylists ? options.maxItems : 1);
+
+        // Playlists, channel tabs and multi-video posts become a batch of child jobs
+        if (info.entries) {
+            if (!options.expandPlaylists) {
+                throw new Error('URL contains multiple videos. Nested playlists are not supported.');
+            }
+            await processBatchAsync(videoId, info, options);
+            return;
+        }
+
+        // Share links, short links and mobile URLs of a video all resolve to the same identity
+        if (info.cacheKey) {
+            rememberUrl(url, info.cacheKey, options.playlistIndex);
+            if (tryCachedResult(videoId, info.cacheKey, options)) {
+                return;
+            }
+
+            const probedJob = videoJobs.get(videoId);
+            if (probedJob) {
+                probedJob.cacheKey = info.cacheKey;
+                probedJob.cache = { hit: false, key: info.cacheKey, analysisReused: false };
+            }
+        }
+
+        checkPreflightLimits(info, limits);
+
+        // Step 2: Download video (or just its captions)
+        updateStatus(videoId, 'downloading', 8, 'Starting download...');
 
-        const downloadResult = await downloadVideo(url, videoId, (progress, message) => {
-            updateStatus('downloading', progress, message);
+        // Captions must be in the spoken language - when detecting it, trust the platform's original language
+        // and fall back to the response language when the platform does not report one
+        const captionLanguage = options.spokenLanguage !== AUTO_LANGUAGE
+            ? options.spokenLanguage
+            : info.language || options.language;
+
+        const downloadResult = await downloadVideo(url, videoId, info, {
+            language: captionLanguage,
+            useCaptions,
+            includeVideo: options.analyzeVisuals,
+            limits,
+        }, (progress, message, transfer) => {
+            updateStatus(videoId, 'downloading', progress, message);
+            const downloadingJob = videoJobs.get(videoId);
+            if (downloadingJob) {
+                downloadingJob.downloadProgress = transfer;
+            }
         });
 
         const job = videoJobs.get(videoId);
         if (job) {
+            job.downloadProgress = undefined;
             job.audioPath = downloadResult.audioPath;
+            job.videoPath = downloadResult.videoPath;
             job.title = downloadResult.title;
             job.duration = downloadResult.duration;
+            job.metadata = downloadResult.metadata;
+        }
+
+        // Platform captions replace AI transcription
+        if (downloadResult.captions) {
+            if (job) {
+                job.segments = markMusicSegments(downloadResult.captions.segments);
+                job.transcription = segmentsToText(job.segments);
+                job.transcriptSource = downloadResult.captions.source;
+                job.detectedLanguage = downloadResult.captions.language.replace(/-orig$/, '');
+
+                const warnings = [await readJobOnScreenText(job), await translateJobTranscript(job)].filter(Boolean);
+                job.status = 'completed';
+                job.progress = 70;
+                job.statusMessage = 'Transcript loaded from captions. ' + (warnings.length > 0 ? warnings.join(' ') : 'Ready for analysis.');
+                cacheJobTranscription(job);
+            }
+            return;
+        }
+
+        if (!downloadResult.audioPath) {
+            throw new Error('Audio file not found after download');
+        }
+
+        // Direct links and local files report no duration before the download
+        if (!downloadResult.duration) {
+            updateStatus(videoId, 'downloading', 42, 'Checking media length...');
+            const duration = await checkMediaFileLimits(downloadResult.audioPath, limits);
+            if (job) {
+                job.duration = duration;
+            }
         }
 
-        // Step 2: Transcribe audio
-        updateStatus('transcribing', 45, 'Starting transcription...');
+        // Step 3: Transcribe audio
+        await transcribeVideoAsync(videoId, downloadResult.audioPath, options.spokenLanguage, options.transcriptionProvider);
+
+    } catch (error) {
+        failJob(videoId, error);
+    }
+}
+
+/**
+ * Fill a job from the result cache - returns false on a miss or when the request forces reprocessing
+ */
+function tryCachedResult(videoId: string, identity: string, options: ProcessJobOptions): boolean {
+    if (options.force) return false;
+
+    const cached = getCachedResult(identity, options.spokenLanguage, options.language);
+    const job = videoJobs.get(videoId);
+    if (!cached || !job) return false;
+
+    // A cached transcript without the requested translation or on-screen text is processed again
+    if (options.translate && !cached.translation && !isSameLanguage(cached.detectedLanguage, options.language)) {
+        return false;
+    }
+    if (options.analyzeVisuals && !cached.onScreenText) {
+        return false;
+    }
+
+    applyCachedResult(job, cached, options.reuseAnalysis);
+    console.log(`Cache hit for ${identity} (${options.language})`);
+    return true;
+}
+
+/**
+ * Copy a cached transcription (and optionally its latest analysis) onto a job
+ */
+function applyCachedResult(job: VideoData, cached: CachedResult, reuseAnalysis: boolean): void {
+    const analysis = reuseAnalysis ? cached.analysis : undefined;
+
+    job.cacheKey = cached.key;
+    job.title = cached.title;
+    job.duration = cached.duration;
+    job.metadata = cached.metadata;
+    job.transcription = cached.transcription;
+    job.segments = cached.segments;
+    job.detectedLanguage = cached.detectedLanguage;
+    job.translation = cached.translation;
+    job.transcriptSource = cached.transcriptSource;
+    job.onScreenText = cached.onScreenText;
+    job.cache = {
+        hit: true,
+        key: cached.key,
+        cachedAt: cached.cachedAt,
+        analysisReused: !!analysis,
+    };
+
+    if (analysis) {
+        job.claims = analysis.claims;
+        job.overallScore = analysis.overallScore;
+        job.analyzedAt = analysis.analyzedAt;
+        job.status = 'completed';
+        job.progress = 100;
+        job.statusMessage = 'Analysis loaded from cache.';
+    } else {
+        job.status = 'completed';
+        job.progress = 70;
+        job.statusMessage = 'Transcript loaded from cache. Ready for analysis.';
+    }
+}
+
+/**
+ * Store a finished transcription so repeat submissions of the video can reuse it
+ */
+function cacheJobTranscription(job: VideoData): void {
+    // Incomplete transcripts are not reused - a new submission should try the missing parts again
+    if (!job.cacheKey || !job.transcription || job.missingRanges?.length) return;
+
+    cacheTranscription({
+        key: job.cacheKey,
+        language: job.language,
+        spokenLanguage: job.spokenLanguage,
+        detectedLanguage: job.detectedLanguage,
+        title: job.title,
+        duration: job.duration,
+        platform: job.platform,
+        metadata: job.metadata,
+        transcription: job.transcription,
+        segments: job.segments,
+        translation: job.translation,
+        transcriptSource: job.transcriptSource,
+        onScreenText: job.onScreenText,
+    });
+}
+
+/**
+ * Read the text shown in the video when the job asked for it - once per job, a retry keeps the result
+ * A failure only skips on-screen claims and returns a warning for the status message
+ */
+async function readJobOnScreenText(job: VideoData): Promise<string | undefined> {
+    if (!job.analyzeVisuals || job.onScreenText) return undefined;
+
+    const videoPath = job.videoPath || job.audioPath;
+    if (!videoPath || !fs.existsSync(videoPath)) {
+        return 'No video available - on-screen text was not read.';
+    }
+
+    try {
+        job.onScreenText = await extractOnScreenText(videoPath, path.dirname(videoPath), (progress, message) => {
+            updateStatus(job.id, 'transcribing', progress, message);
+        }, jobSignal(job));
+        return undefined;
+    } catch (err) {
+        console.error('Reading on-screen text failed:', err);
+        return `On-screen text could not be read (${err instanceof Error ? err.message : 'unknown error'}).`;
+    }
+}
+
+/**
+ * Translate the transcript to the response language when the job asked for it
+ * A failed translation keeps the original transcript and returns a warning for the status message
+ */
+async function translateJobTranscript(job: VideoData): Promise<string | undefined> {
+    job.translation = undefined;
+    if (!job.translate || !job.segments?.length || isSameLanguage(job.detectedLanguage, job.language)) {
+        return undefined;
+    }
+
+    const fromLanguage = job.detectedLanguage || AUTO_LANGUAGE;
+    const toName = getLanguageName(job.language);
+
+    try {
+        updateStatus(job.id, 'transcribing', 68, `Translating transcript to ${toName}...`);
+        job.translation = await translateSegments(job.segments, fromLanguage, job.language, job.speakerNames, (done, total) => {
+            job.statusMessage = `Translating transcript to ${toName} (${done}/${total} segments)...`;
+        });
+        return undefined;
+    } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+        console.error(`Translation failed for ${job.id}:`, errorMessage);
+        return `Translation to ${toName} failed (${errorMessage}) - the original transcript is available.`;
+    }
+}
+
+/**
+ * Expand a multi-video URL into child jobs and process them one at a time
+ */
+async function processBatchAsync(parentId: string, info: MediaInfo, options: ProcessJobOptions): Promise<void> {
+    const parent = videoJobs.get(parentId);
+    if (!parent) return;
+
+    const entries = (info.entries || []).slice(0, options.maxItems);
+    if (entries.length === 0) {
+        throw new Error('No videos found at this URL');
+    }
+
+    const children: VideoData[] = entries.map(entry => ({
+        id: generateId(),
+        source: 'url',
+        url: entry.url,
+        platform: findPlatform(entry.url)?.name || parent.platform,
+        title: entry.title,
+        duration: entry.duration,
+        language: parent.language,
+        spokenLanguage: parent.spokenLanguage,
+        translate: parent.translate,
+        analyzeVisuals: parent.analyzeVisuals,
+        status: 'pending',
+        progress: 0,
+        statusMessage: 'Waiting in batch queue...',
+        createdAt: new Date(),
+        parentId,
+    }));
 
-        const transcriptionResult = await transcribeAudio(downloadResult.audioPath, language, (progress, message) => {
-            updateStatus('transcribing', progress, message);
+    children.forEach(child => videoJobs.set(child.id, child));
+
+    parent.title = info.title;
+    parent.metadata = info.metadata;
+    parent.batch = {
+        childIds: children.map(child => child.id),
+        totalEntries: info.entryCount || info.entries?.length || entries.length,
+        moreEntries: !info.entryCount && (info.entries?.length || 0) > options.maxItems,
+    };
+    console.log(`Expanded ${parent.url} into ${children.length}/${parent.batch.totalEntries}${parent.batch.moreEntries ? '+' : ''} videos`);
+
+    // Sequential to keep yt-dlp and Gemini load the same as for a single video
+    for (let i = 0; i < children.length; i++) {
+        await processVideoAsync(children[i].id, children[i].url as string, {
+            ...options,
+            expandPlaylists: false,
+            playlistIndex: entries[i].playlistIndex,
         });
+    }
+}
 
+/**
+ * Background transcription - shared by URL downloads, direct uploads and retries
+ * Chunk state from an earlier attempt is kept on the job so a retry only redoes failed chunks
+ */
+async function transcribeVideoAsync(
+    videoId: string,
+    audioPath: string,
+    spokenLanguage: string,
+    providerName: string = config.transcriptionProvider
+): Promise<void> {
+    try {
+        const startingJob = videoJobs.get(videoId);
+        // Chunk boundaries only match when the same provider chunks the audio again
+        const previousChunks = startingJob?.transcriptionProvider === providerName ? startingJob.transcriptionChunks : undefined;
+        if (startingJob) {
+            // Recorded up front so a retry after an early failure uses the same provider
+            startingJob.transcriptionProvider = providerName;
+        }
+
+        // Frames are read before normalization replaces a video file with its audio
+        const visualWarning = startingJob ? await readJobOnScreenText(startingJob) : undefined;
+
+        const normalizedPath = await normalizeJobAudio(videoId, audioPath);
+        updateStatus(videoId, 'transcribing', 45, 'Starting transcription...');
+
+        // Silence is cut out so it is not uploaded or transcribed - music is kept and marked in the transcript afterwards
+        const signal = startingJob ? jobSignal(startingJob) : undefined;
+        const speech = await prepareSpeechAudio(normalizedPath, (progress, message) => {
+            updateStatus(videoId, 'transcribing', progress, message);
+        }, signal);
+        // The steps above fall back to the original audio on any error - a deleted job must not go on to transcription
+        signal?.throwIfAborted();
+
+        let speechResult: TranscriptionResult;
+        try {
+            speechResult = await transcribeAudio(speech?.audioPath || normalizedPath, spokenLanguage, (progress, message) => {
+                updateStatus(videoId, 'transcribing', progress, message);
+            }, providerName, {
+                previousChunks,
+                onChunksUpdate: chunks => {
+                    const chunkingJob = videoJobs.get(videoId);
+                    if (chunkingJob) {
+                        chunkingJob.transcriptionChunks = chunks;
+                    }
+                },
+            });
+        } finally {
+            // Cut again from the normalized audio on a retry
+            if (speech) {
+                fs.rmSync(speech.audioPath, { force: true });
+            }
+        }
+        const transcriptionResult = speech ? restoreTimeline(speechResult, speech) : speechResult;
+
+        const job = videoJobs.get(videoId);
         if (job) {
-            job.transcription = transcriptionResult.transcription;
+            const missingRanges = transcriptionResult.missingRanges || [];
+
+            job.segments = markMusicSegments(transcriptionResult.segments);
+            job.transcription = segmentsToText(job.segments);
+            job.missingRanges = missingRanges.length > 0 ? missingRanges : undefined;
+            job.skippedRanges = speech?.skipped;
+            job.detectedLanguage = transcriptionResult.language;
+            // A new transcription replaces any earlier edits
+            job.originalTranscription = undefined;
+            job.originalSegments = undefined;
+            job.transcriptEditedAt = undefined;
+            job.transcriptSource = 'ai_transcription';
+            job.transcriptionProvider = providerName;
+            job.error = undefined;
+
+            const translationWarning = await translateJobTranscript(job);
+
             job.status = 'completed';
             job.progress = 70;
-            job.statusMessage = 'Transcription complete. Ready for analysis.';
+            job.statusMessage = missingRanges.length > 0
+                ? `Transcription incomplete: ${missingRanges.length} part(s) could not be transcribed. Retry them or continue with analysis.`
+                : 'Transcription complete. Ready for analysis.';
+            for (const warning of [visualWarning, translationWarning]) {
+                if (warning) job.statusMessage += ` ${warning}`;
+            }
+            cacheJobTranscription(job);
         }
 
     } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        const job = videoJobs.get(videoId);
-        if (job) {
-            job.status = 'error';
-            job.error = errorMessage;
-            job.statusMessage = `Error: ${errorMessage}`;
+        failJob(videoId, error);
+    }
+}
+
+/**
+ * Signal that stops a job's FFmpeg work once the job is deleted
+ */
+function jobSignal(job: VideoData): AbortSignal {
+    job.abortController ??= new AbortController();
+    return job.abortController.signal;
+}
+
+/**
+ * Replace the downloaded media with speech-optimized audio - done once per job, a retry reuses the result
+ */
+async function normalizeJobAudio(videoId: string, audioPath: string): Promise<string> {
+    const job = videoJobs.get(videoId);
+    if (!job || job.audioNormalization) return audioPath;
+
+    const result = await normalizeAudio(audioPath, (progress, message) => {
+        updateStatus(videoId, 'transcribing', progress, message);
+    }, jobSignal(job));
+    if (!result) return audioPath;
+
+    fs.rmSync(audioPath, { force: true });
+    job.audioPath = result.audioPath;
+    job.audioNormalization = result.normalization;
+    return result.audioPath;
+}
+
+/**
+ * Retry transcription of a failed or incomplete job - chunks that already succeeded are reused
+ */
+export function retryTranscription(req: Request, res: Response): void {
+    const { id } = req.params;
+
+    const job = videoJobs.get(id);
+    if (!job) {
+        res.status(404).json({ success: false, error: 'Video not found' });
+        return;
+    }
+
+    if (job.batch) {
+        res.status(400).json({ success: false, error: 'Retry the videos of a batch one at a time' });
+        return;
+    }
+
+    if (job.status === 'downloading' || job.status === 'transcribing' || job.status === 'analyzing') {
+        res.status(400).json({ success: false, error: `The video is still ${job.status}` });
+        return;
+    }
+
+    if (job.status !== 'error' && !job.missingRanges?.length) {
+        res.status(400).json({ success: false, error: 'Transcription is not failed or incomplete' });
+        return;
+    }
+
+    if (job.transcriptSource && job.transcriptSource !== 'ai_transcription') {
+        res.status(400).json({ success: false, error: 'Transcript came from captions - process the video again instead' });
+        return;
+    }
+
+    if (!job.audioPath || !fs.existsSync(job.audioPath)) {
+        res.status(400).json({ success: false, error: 'Audio is no longer available - process the video again' });
+        return;
+    }
+
+    const pendingChunks = job.transcriptionChunks?.filter(c => c.status !== 'done').length;
+
+    // Set before responding, so a second retry, an analysis or an edit sent meanwhile is refused
+    job.status = 'transcribing';
+    job.progress = 40;
+    job.statusMessage = 'Restarting transcription...';
+    job.error = undefined;
+    job.errorCode = undefined;
+
+    res.json({
+        success: true,
+        id: job.id,
+        message: pendingChunks
+            ? `Retrying ${pendingChunks} of ${job.transcriptionChunks?.length} chunks`
+            : 'Transcription restarted',
+    });
+
+    transcribeVideoAsync(id, job.audioPath, job.spokenLanguage, job.transcriptionProvider);
+}
+
+/**
+ * Recompute a batch parent's status and progress from its children
+ */
+function refreshBatchStatus(parent: VideoData): VideoData[] {
+    const children = (parent.batch?.childIds || [])
+        .map(id => videoJobs.get(id))
+        .filter((child): child is VideoData => !!child);
+    if (children.length === 0) return children;
+
+    const completed = children.filter(c => c.status === 'completed').length;
+    const failed = children.filter(c => c.status === 'error').length;
+
+    if (completed + failed === children.length) {
+        parent.status = failed === children.length ? 'error' : 'completed';
+        parent.error = failed === children.length ? 'All videos in the batch failed' : undefined;
+    } else if (children.some(c => c.status === 'analyzing')) {
+        parent.status = 'analyzing';
+    } else if (children.some(c => c.status === 'transcribing')) {
+        parent.status = 'transcribing';
+    } else {
+        parent.status = 'downloading';
+    }
+
+    // Failed children count as finished so the batch can reach 100%
+    const totalProgress = children.reduce((sum, c) => sum + (c.status === 'error' ? 100 : c.progress), 0);
+    parent.progress = Math.round(totalProgress / children.length);
+    parent.statusMessage = `${completed}/${children.length} videos completed` + (failed > 0 ? `, ${failed} failed` : '');
+
+    return children;
+}
+
+/**
+ * Average the overall scores of analyzed children
+ */
+function averageScore(children: VideoData[]): number | undefined {
+    const scores = children
+        .map(c => c.overallScore)
+        .filter((score): score is number => score !== undefined);
+    if (scores.length === 0) return undefined;
+    return Math.round(scores.reduce((sum, score) => sum + score, 0) / scores.length);
+}
+
+/**
+ * Count claims per verification status
+ */
+function summarizeClaims(claims: Claim[]) {
+    return {
+        totalClaims: claims.length,
+        trueClaims: claims.filter(c => c.status === 'true').length,
+        falseClaims: claims.filter(c => c.status === 'false').length,
+        partiallyTrueClaims: claims.filter(c => c.status === 'partially_true').length,
+        unverifiableClaims: claims.filter(c => c.status === 'unverifiable').length,
+    };
+}
+
+/**
+ * Detected speakers with their display names
+ */
+function listSpeakers(job: VideoData) {
+    return getSpeakerLabels(job.segments || []).map(label => ({
+        label,
+        name: job.speakerNames?.[label] || label,
+    }));
+}
+
+/**
+ * Group claims by the speaker who made them - claims without a speaker go last
+ */
+function groupClaimsBySpeaker(job: VideoData) {
+    const claims = job.claims || [];
+    const speakers = listSpeakers(job);
+
+    // Speakers the model named that diarization did not produce still get their own group
+    for (const claim of claims) {
+        if (claim.speaker && !speakers.some(s => s.label === claim.speaker)) {
+            speakers.push({ label: claim.speaker, name: job.speakerNames?.[claim.speaker] || claim.speaker });
         }
     }
+
+    const groups = speakers
+        .map(speaker => {
+            const speakerClaims = claims.filter(c => c.speaker === speaker.label);
+            return { ...speaker, claims: speakerClaims, summary: summarizeClaims(speakerClaims) };
+        })
+        .filter(group => group.claims.length > 0);
+
+    const unattributed = claims.filter(c => !c.speaker);
+    if (unattributed.length > 0 && groups.length > 0) {
+        groups.push({ label: '', name: 'Unattributed', claims: unattributed, summary: summarizeClaims(unattributed) });
+    }
+
+    return groups;
 }
 
+/**
+ * Per-child entry of a batch response
+ */
+function toBatchItem(child: VideoData) {
+    return {
+        id: child.id,
+        url: child.url,
+        title: child.title,
+        status: child.status,
+        progress: child.progress,
+        statusMessage: child.statusMessage,
+        overallScore: child.overallScore,
+        error: child.error,
+        errorCode: child.errorCode,
+    };
+}
 
 /**
  * Get video processing status
@@ -198,6 +1029,10 @@ export function getVideoStatus(req: Request, res: Response): void {
         return;
     }
 
+    if (job.batch) {
+        refreshBatchStatus(job);
+    }
+
     res.json({
         success: true,
         id: job.id,
@@ -206,8 +1041,62 @@ export function getVideoStatus(req: Request, res: Response): void {
         statusMessage: job.statusMessage,
         title: job.title,
         platform: job.platform,
+        metadata: job.metadata,
         transcription: job.status === 'completed' || job.status === 'analyzing' ? job.transcription : undefined,
+        segments: job.status === 'completed' || job.status === 'analyzing' ? job.segments : undefined,
+        translation: job.status === 'completed' || job.status === 'analyzing' ? job.translation : undefined,
+        transcriptEdited: !!job.transcriptEditedAt,
+        originalTranscription: job.originalTranscription,
+        language: job.language,
+        spokenLanguage: job.spokenLanguage,
+        detectedLanguage: job.detectedLanguage,
+        missingRanges: job.missingRanges,
+        skippedRanges: job.skippedRanges,
+        audioNormalization: job.audioNormalization,
+        onScreenText: job.onScreenText,
+        transcriptComplete: !job.missingRanges?.length,
+        transcriptSource: job.transcriptSource,
+        transcriptionProvider: job.transcriptionProvider,
         error: job.error,
+        errorCode: job.errorCode,
+        speakers: listSpeakers(job),
+        downloadProgress: job.status === 'downloading' ? job.downloadProgress : undefined,
+        cache: job.cache,
+        batch: job.batch,
+    });
+}
+
+/**
+ * Get aggregated status of a playlist/channel/multi-video batch
+ */
+export function getBatchStatus(req: Request, res: Response): void {
+    const { id } = req.params;
+
+    const job = videoJobs.get(id);
+    if (!job) {
+        res.status(404).json({ success: false, error: 'Video not found' });
+        return;
+    }
+
+    if (!job.batch) {
+        res.status(400).json({ success: false, error: 'Video is not a batch' });
+        return;
+    }
+
+    const children = refreshBatchStatus(job);
+
+    res.json({
+        success: true,
+        id: job.id,
+        url: job.url,
+        title: job.title,
+        platform: job.platform,
+        status: job.status,
+        progress: job.progress,
+        statusMessage: job.statusMessage,
+        totalEntries: job.batch.totalEntries,
+        overallScore: averageScore(children),
+        items: children.map(toBatchItem),
     });
 }
 
@@ -225,6 +1114,11 @@ export async function analyzeVideo(req: Request, res: Response): Promise<void> {
             return;
         }
 
+        if (job.batch) {
+            analyzeBatch(job, res, useInternet === true);
+            return;
+        }
+
         if (!job.transcription) {
             res.status(400).json({ success: false, error: 'Video not yet transcribed' });
             return;
@@ -235,6 +1129,12 @@ export async function analyzeVideo(req: Request, res: Response): Promise<void> {
             return;
         }
 
+        // A retried transcription is about to replace the transcript
+        if (job.status === 'downloading' || job.status === 'transcribing') {
+            res.status(400).json({ success: false, error: 'Transcription still in progress' });
+            return;
+        }
+
         // Update status
         job.status = 'analyzing';
         job.progress = 75;
@@ -248,7 +1148,7 @@ export async function analyzeVideo(req: Request, res: Response): Promise<void> {
         });
 
         // Analyze in background
-        analyzeVideoAsync(id, job.transcription, job.language);
+        analyzeVideoAsync(id, job.transcription, job.language, job.metadata, useInternet === true);
 
     } catch (error) {
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -256,19 +1156,75 @@ export async function analyzeVideo(req: Request, res: Response): Promise<void> {
     }
 }
 
+/**
+ * Start analysis of every transcribed child of a batch
+ */
+function analyzeBatch(parent: VideoData, res: Response, useInternet: boolean): void {
+    const children = refreshBatchStatus(parent);
+
+    if (parent.status === 'analyzing') {
+        res.status(400).json({ success: false, error: 'Analysis already in progress' });
+        return;
+    }
+
+    const ready = children.filter(c => c.status === 'completed' && c.transcription);
+    if (ready.length === 0) {
+        res.status(400).json({ success: false, error: 'No videos in this batch are transcribed yet' });
+        return;
+    }
+
+    ready.forEach(child => {
+        child.status = 'analyzing';
+        child.progress = 75;
+        child.statusMessage = 'Waiting for fact-check analysis...';
+    });
+
+    res.json({
+        success: true,
+        id: parent.id,
+        message: `Analysis started for ${ready.length} videos`,
+    });
+
+    // One at a time, in the background
+    (async () => {
+        for (const child of ready) {
+            await analyzeVideoAsync(child.id, child.transcription as string, child.language, child.metadata, useInternet);
+        }
+    })();
+}
+
 /**
  * Background analysis processing
  */
-async function analyzeVideoAsync(videoId: string, transcription: string, language: string): Promise<void> {
+async function analyzeVideoAsync(
+    videoId: string,
+    transcription: string,
+    language: string,
+    metadata?: VideoMetadata,
+    useInternet: boolean = false
+): Promise<void> {
     const job = videoJobs.get(videoId);
     if (!job) return;
 
     try {
-        const result = await factCheckTranscription(transcription, language, (progress, message) => {
+        const context = {
+            useInternet,
+            metadata,
+            missingRanges: job.missingRanges,
+            musicRanges: getMusicRanges(job.segments || []),
+            onScreenText: job.onScreenText,
+            transcriptLanguage: job.detectedLanguage,
+        };
+        const result = await factCheckTranscription(transcription, language, context, (progress, message) => {
             job.progress = progress;
             job.statusMessage = message;
         });
 
+        // The model may name speakers by their renamed display names
+        result.claims.forEach(claim => {
+            claim.speaker = resolveSpeakerLabel(claim.speaker, job.speakerNames);
+        });
+
         job.claims = result.claims;
         job.overallScore = result.overallScore;
         job.analyzedAt = new Date();
@@ -276,6 +1232,15 @@ async function analyzeVideoAsync(videoId: string, transcription: string, languag
         job.progress = 100;
         job.statusMessage = 'Analysis complete!';
 
+        // Analyses of an edited transcript are not the video's own result
+        if (job.cacheKey && !job.transcriptEditedAt) {
+            cacheAnalysis(job.cacheKey, job.spokenLanguage, job.language, {
+                claims: result.claims,
+                overallScore: result.overallScore,
+                analyzedAt: job.analyzedAt,
+            });
+        }
+
     } catch (error) {
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
         job.status = 'error';
@@ -284,6 +1249,257 @@ async function analyzeVideoAsync(videoId: string, transcription: string, languag
     }
 }
 
+/**
+ * Rename detected speakers - the transcript (and the next analysis) use the new names
+ */
+export function renameSpeakers(req: Request, res: Response): void {
+    const { id } = req.params;
+    const { speakers } = req.body as RenameSpeakersRequest;
+
+    const job = videoJobs.get(id);
+    if (!job) {
+        res.status(404).json({ success: false, error: 'Video not found' });
+        return;
+    }
+
+    const labels = getSpeakerLabels(job.segments || []);
+    if (labels.length === 0) {
+        res.status(400).json({ success: false, error: 'No speakers detected in this transcript' });
+        return;
+    }
+
+    if (!speakers || typeof speakers !== 'object' || Array.isArray(speakers)) {
+        res.status(400).json({ success: false, error: 'speakers must be an object of label -> name' });
+        return;
+    }
+
+    const speakerNames = { ...job.speakerNames };
+    for (const [label, name] of Object.entries(speakers)) {
+        if (!labels.includes(label)) {
+            res.status(400).json({ success: false, error: `Unknown speaker: ${label}. Detected: ${labels.join(', ')}` });
+            return;
+        }
+        if (name !== null && typeof name !== 'string') {
+            res.status(400).json({ success: false, error: `Name for ${label} must be a string or null` });
+            return;
+        }
+
+        const trimmed = (name || '').trim();
+        if (trimmed.length > 100) {
+            res.status(400).json({ success: false, error: `Name for ${label} is too long (max 100 characters)` });
+            return;
+        }
+        if (trimmed) {
+            speakerNames[label] = trimmed;
+        } else {
+            delete speakerNames[label];
+        }
+    }
+
+    job.speakerNames = speakerNames;
+    job.transcription = segmentsToText(job.segments || [], speakerNames);
+    if (job.translation) {
+        job.translation.transcription = segmentsToText(job.translation.segments, speakerNames);
+    }
+
+    res.json({
+        success: true,
+        id: job.id,
+        speakers: listSpeakers(job),
+    });
+}
+
+/**
+ * Replace the transcript with a corrected one before analysis - the transcribed version is kept alongside
+ */
+export function updateTranscription(req: Request, res: Response): void {
+    const { id } = req.params;
+    const { transcription, segments: segmentEdits, revert = false } = req.body as EditTranscriptionRequest;
+
+    const job = videoJobs.get(id);
+    if (!job) {
+        res.status(404).json({ success: false, error: 'Video not found' });
+        return;
+    }
+
+    if (job.batch) {
+        res.status(400).json({ success: false, error: 'Edit the transcripts of a batch one video at a time' });
+        return;
+    }
+
+    if (!job.transcription || job.status !== 'completed') {
+        res.status(400).json({ success: false, error: 'Video is not transcribed yet, or is being analyzed' });
+        return;
+    }
+
+    const editCount = [transcription !== undefined, segmentEdits !== undefined, revert === true].filter(Boolean).length;
+    if (editCount !== 1) {
+        res.status(400).json({ success: false, error: 'Send exactly one of transcription, segments or revert' });
+        return;
+    }
+
+    if (revert) {
+        if (job.originalTranscription === undefined) {
+            res.status(400).json({ success: false, error: 'Transcript has not been edited' });
+            return;
+        }
+        job.segments = job.originalSegments;
+        job.transcription = job.segments ? segmentsToText(job.segments, job.speakerNames) : job.originalTranscription;
+        job.originalTranscription = undefined;
+        job.originalSegments = undefined;
+        job.transcriptEditedAt = undefined;
+        res.json({ success: true, id: job.id, transcription: job.transcription, segments: job.segments, transcriptEdited: false });
+        return;
+    }
+
+    let newSegments = job.segments;
+    let newTranscription: string;
+
+    if (transcription !== undefined) {
+        // Parsing the text back into segments would lose their speakers, renamed labels and music flags
+        if (job.segments) {
+            res.status(400).json({ success: false, error: 'This transcript has segments - edit them with segments instead of the whole transcription' });
+            return;
+        }
+        if (typeof transcription !== 'string' || !transcription.trim()) {
+            res.status(400).json({ success: false, error: 'transcription must be non-empty text' });
+            return;
+        }
+        newTranscription = transcription.trim();
+    } else {
+        if (!job.segments) {
+            res.status(400).json({ success: false, error: 'This transcript has no segments - send the whole transcription instead' });
+            return;
+        }
+        if (!Array.isArray(segmentEdits) || segmentEdits.length === 0) {
+            res.status(400).json({ success: false, error: 'segments must be a non-empty list of { index, text }' });
+            return;
+        }
+
+        const edited = job.segments.map(segment => ({ ...segment }));
+        for (const edit of segmentEdits) {
+            if (!Number.isInteger(edit?.index) || edit.index < 0 || edit.index >= edited.length || typeof edit.text !== 'string') {
+                res.status(400).json({ success: false, error: `Invalid segment edit - index must be 0-${edited.length - 1} and text a string` });
+                return;
+            }
+            edited[edit.index].text = edit.text.trim();
+        }
+
+        newSegments = markMusicSegments(edited.filter(segment => segment.text.length > 0));
+        if (newSegments.length === 0) {
+            res.status(400).json({ success: false, error: 'The edited transcript would be empty' });
+            return;
+        }
+        newTranscription = segmentsToText(newSegments, job.speakerNames);
+    }
+
+    // The first edit keeps the transcribed version; later edits build on the current text
+    if (job.originalTranscription === undefined) {
+        job.originalTranscription = job.transcription;
+        job.originalSegments = job.segments;
+    }
+    job.transcription = newTranscription;
+    job.segments = newSegments;
+    job.transcriptEditedAt = new Date();
+    // A translation of the old text no longer matches
+    job.translation = undefined;
+
+    res.json({ success: true, id: job.id, transcription: job.transcription, segments: job.segments, transcriptEdited: true });
+}
+
+/**
+ * File name for a downloaded transcript, based on the video title
+ */
+function transcriptFileName(job: VideoData, language: string | undefined, extension: string): string {
+    const base = (job.title || job.fileName || job.id)
+        .replace(/\.[a-z0-9]{2,4}$/i, '') // uploaded file names keep their extension in the title
+        .replace(/[\\/:*?"<>|\x00-\x1f]+/g, ' ')
+        .replace(/\s+/g, ' ')
+        .trim()
+        .slice(0, 100) || job.id;
+    return `${base}${language ? `.${language}` : ''}.${extension}`;
+}
+
+/**
+ * Download the transcript as subtitles (SRT, WebVTT), plain text or JSON
+ * ?translated=true exports the translation instead of the original-language transcript
+ */
+export function exportTranscript(req: Request, res: Response): void {
+    const { id } = req.params;
+    const format = String(req.query.format || 'txt').toLowerCase();
+    const translated = req.query.translated === 'true';
+
+    const job = videoJobs.get(id);
+    if (!job) {
+        res.status(404).json({ success: false, error: 'Video not found' });
+        return;
+    }
+
+    const formatInfo = TRANSCRIPT_FORMATS[format];
+    if (!formatInfo) {
+        res.status(400).json({ success: false, error: `Unknown format. Available: ${Object.keys(TRANSCRIPT_FORMATS).join(', ')}` });
+        return;
+    }
+
+    if (job.batch) {
+        res.status(400).json({ success: false, error: 'Export the transcripts of a batch one video at a time' });
+        return;
+    }
+
+    if (!job.transcription || job.status === 'transcribing') {
+        res.status(400).json({ success: false, error: 'Video not yet transcribed' });
+        return;
+    }
+
+    if (translated && !job.translation) {
+        res.status(400).json({ success: false, error: 'This transcript has not been translated' });
+        return;
+    }
+
+    const segments = translated ? job.translation?.segments : job.segments;
+    const transcription = translated ? job.translation?.transcription : job.transcription;
+    const language = translated ? job.translation?.language : job.detectedLanguage;
+
+    if ((format === 'srt' || format === 'vtt') && !segments?.length) {
+        res.status(400).json({ success: false, error: 'This transcript has no timestamps - export it as txt or json' });
+        return;
+    }
+
+    let body: string;
+    switch (format) {
+        case 'srt':
+            body = segmentsToSrt(segments || [], job.speakerNames);
+            break;
+        case 'vtt':
+            body = segmentsToVtt(segments || [], job.speakerNames);
+            break;
+        case 'json':
+            body = JSON.stringify({
+                id: job.id,
+                title: job.title,
+                url: job.url,
+                platform: job.platform,
+                duration: job.duration,
+                language,
+                translated,
+                transcriptSource: job.transcriptSource,
+                transcriptEdited: !!job.transcriptEditedAt,
+                speakers: listSpeakers(job),
+                missingRanges: job.missingRanges,
+                skippedRanges: job.skippedRanges,
+                transcription,
+                segments: segments || [],
+            }, null, 2);
+            break;
+        default:
+            body = transcription || '';
+    }
+
+    res.attachment(transcriptFileName(job, language, formatInfo.extension));
+    res.type(formatInfo.contentType);
+    res.send(body);
+}
+
 /**
  * Get final results
  */
@@ -296,6 +1512,11 @@ export function getVideoResults(req: Request, res: Response): void {
         return;
     }
 
+    if (job.batch) {
+        getBatchResults(job, res);
+        return;
+    }
+
     if (!job.claims || job.overallScore === undefined) {
         res.status(400).json({
             success: false,
@@ -306,26 +1527,73 @@ export function getVideoResults(req: Request, res: Response): void {
         return;
     }
 
-    const summary = {
-        totalClaims: job.claims.length,
-        trueClaims: job.claims.filter(c => c.status === 'true').length,
-        falseClaims: job.claims.filter(c => c.status === 'false').length,
-        partiallyTrueClaims: job.claims.filter(c => c.status === 'partially_true').length,
-        unverifiableClaims: job.claims.filter(c => c.status === 'unverifiable').length,
-    };
+    const summary = summarizeClaims(job.claims);
 
     res.json({
         success: true,
         id: job.id,
+        source: job.source,
         url: job.url,
+        fileName: job.fileName,
         title: job.title,
+        duration: job.duration,
+        metadata: job.metadata,
         platform: job.platform,
         language: job.language,
+        spokenLanguage: job.spokenLanguage,
+        detectedLanguage: job.detectedLanguage,
         transcription: job.transcription,
+        segments: job.segments,
+        translation: job.translation,
+        transcriptEdited: !!job.transcriptEditedAt,
+        originalTranscription: job.originalTranscription,
+        missingRanges: job.missingRanges,
+        skippedRanges: job.skippedRanges,
+        audioNormalization: job.audioNormalization,
+        onScreenText: job.onScreenText,
+        transcriptComplete: !job.missingRanges?.length,
+        transcriptSource: job.transcriptSource,
         overallScore: job.overallScore,
         claims: job.claims,
         summary,
+        claimsBySpeaker: groupClaimsBySpeaker(job),
         analyzedAt: job.analyzedAt,
+        cache: job.cache,
+    });
+}
+
+/**
+ * Combined results of all analyzed children of a batch
+ */
+function getBatchResults(parent: VideoData, res: Response): void {
+    const children = refreshBatchStatus(parent);
+    const analyzed = children.filter(c => c.claims && c.overallScore !== undefined);
+
+    if (parent.status === 'analyzing' || analyzed.length === 0) {
+        res.status(400).json({
+            success: false,
+            error: 'Analysis not yet complete',
+            status: parent.status,
+            progress: parent.progress,
+        });
+        return;
+    }
+
+    const claims = analyzed.flatMap(c => c.claims as Claim[]);
+
+    res.json({
+        success: true,
+        id: parent.id,
+        source: parent.source,
+        url: parent.url,
+        title: parent.title,
+        metadata: parent.metadata,
+        platform: parent.platform,
+        language: parent.language,
+        overallScore: averageScore(analyzed),
+        claims,
+        summary: summarizeClaims(claims),
+        items: children.map(toBatchItem),
     });
 }
 
@@ -341,7 +1609,15 @@ export function deleteVideo(req: Request, res: Response): void {
         return;
     }
 
-    // Cleanup temp files
+    // Deleting a batch removes its children too
+    for (const childId of job.batch?.childIds || []) {
+        videoJobs.get(childId)?.abortController?.abort();
+        cleanupTempFiles(childId);
+        videoJobs.delete(childId);
+    }
+
+    // Stop running FFmpeg work, then cleanup temp files
+    job.abortController?.abort();
     cleanupTempFiles(id);
 
     // Remove from memory
@@ -8,7 +8,8 @@ const app = express();
 
 // Middleware
 app.use(cors());
-app.use(express.json());
+// Edited transcripts of long videos are larger than the 100kb default
+app.use(express.json({ limit: '2mb' }));
 
 // Ensure temp directory exists
 ensureTempDir();
@@ -32,8 +33,14 @@ app.get('/', (_req, res) => {
             platforms: 'GET /api/platforms',
             systemStatus: 'GET /api/status',
             processVideo: 'POST /api/video/process',
+            uploadVideo: 'POST /api/video/upload',
             videoStatus: 'GET /api/video/:id/status',
+            batchStatus: 'GET /api/video/:id/batch',
+            retryTranscription: 'POST /api/video/:id/retry',
             analyzeVideo: 'POST /api/video/:id/analyze',
+            renameSpeakers: 'PUT /api/video/:id/speakers',
+            updateTranscription: 'PUT /api/video/:id/transcription',
+            exportTranscript: 'GET /api/video/:id/transcript?format=srt|vtt|txt|json',
             videoResults: 'GET /api/video/:id/results',
             deleteVideo: 'DELETE /api/video/:id',
         },
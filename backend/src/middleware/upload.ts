@@ -0,0 +1,53 @@
+import { Request, Response, NextFunction } from 'express';
+import multer from 'multer';
+import fs from 'fs';
+import path from 'path';
+import { config } from '../config/config';
+import { generateId } from '../utils/helpers';
+
+const uploadDir = path.join(config.tempDir, 'uploads');
+
+const storage = multer.diskStorage({
+    destination: (_req, _file, cb) => {
+        if (!fs.existsSync(uploadDir)) {
+            fs.mkdirSync(uploadDir, { recursive: true });
+        }
+        cb(null, uploadDir);
+    },
+    filename: (_req, file, cb) => {
+        // Keep the original extension - transcription picks the MIME type from it
+        cb(null, `${generateId()}${path.extname(file.originalname).toLowerCase()}`);
+    },
+});
+
+const upload = multer({
+    storage,
+    limits: {
+        fileSize: config.maxUploadSizeMB * 1024 * 1024,
+        files: 1,
+    },
+    fileFilter: (_req, file, cb) => {
+        if (file.mimetype.startsWith('audio/') || file.mimetype.startsWith('video/')) {
+            cb(null, true);
+        } else {
+            cb(new Error('Only audio or video files are supported'));
+        }
+    },
+});
+
+/**
+ * Accept a single media file in the "file" field
+ * Upload errors are returned as JSON instead of falling through to Express' HTML error page
+ */
+export function uploadMediaFile(req: Request, res: Response, next: NextFunction): void {
+    upload.single('file')(req, res, (err: unknown) => {
+        if (err) {
+            const errorMessage = err instanceof multer.MulterError && err.code === 'LIMIT_FILE_SIZE'
+                ? `File too large. Maximum size is ${config.maxUploadSizeMB} MB`
+                : err instanceof Error ? err.message : 'Upload failed';
+            res.status(400).json({ success: false, error: errorMessage });
+            return;
+        }
+        next();
+    });
+}
@@ -4,11 +4,18 @@ import {
     getPlatforms,
     getSystemStatus,
     processVideo,
+    uploadVideo,
     getVideoStatus,
+    getBatchStatus,
+    retryTranscription,
     analyzeVideo,
+    renameSpeakers,
+    updateTranscription,
+    exportTranscript,
     getVideoResults,
     deleteVideo,
 } from '../controllers/videoController';
+import { uploadMediaFile } from '../middleware/upload';
 
 const router = Router();
 
@@ -19,8 +26,14 @@ router.get('/status', getSystemStatus);
 
 // Video processing endpoints
 router.post('/video/process', processVideo);
+router.post('/video/upload', uploadMediaFile, uploadVideo);
 router.get('/video/:id/status', getVideoStatus);
+router.get('/video/:id/batch', getBatchStatus);
+router.post('/video/:id/retry', retryTranscription);
 router.post('/video/:id/analyze', analyzeVideo);
+router.put('/video/:id/speakers', renameSpeakers);
+router.put('/video/:id/transcription', updateTranscription);
+router.get('/video/:id/transcript', exportTranscript);
 router.get('/video/:id/results', getVideoResults);
 router.delete('/video/:id', deleteVideo);
 
@@ -0,0 +1,69 @@
+import fs from 'fs';
+import path from 'path';
+import { config } from '../config/config';
+import { AudioFileSummary, AudioNormalization, TranscriptionProgressCallback } from '../types';
+import { probeMedia, transcodeAudio } from './mediaService';
+
+// Speech recognizers work on 16 kHz mono - more detail only makes the upload bigger
+const SPEECH_SAMPLE_RATE = 16000;
+
+// Removes rumble below the voice range, then brings quiet and loud recordings to the same level
+const SPEECH_FILTERS = ['highpass=f=80', 'loudnorm=I=-16:TP=-1.5:LRA=11'];
+
+// FFT denoiser for steady background noise (fans, traffic, hiss) - runs before the level is normalized
+const DENOISE_FILTER = 'afftdn=nf=-25';
+
+/**
+ * Size and format of a media file
+ */
+async function summarizeAudio(filePath: string, signal?: AbortSignal): Promise<AudioFileSummary> {
+    const probe = await probeMedia(filePath, { signal });
+    return {
+        sizeBytes: probe.sizeBytes ?? fs.statSync(filePath).size,
+        formatName: probe.formatName,
+        codec: probe.audio?.codec,
+        sampleRate: probe.audio?.sampleRate,
+        channels: probe.audio?.channels,
+        duration: probe.duration,
+        hasVideo: !!probe.videoCodec,
+    };
+}
+
+/**
+ * Convert downloaded media into speech-optimized audio: video dropped, mono 16 kHz, loudness-normalized
+ * Returns null when normalization is disabled or fails - the original file is then transcribed as is
+ */
+export async function normalizeAudio(
+    audioPath: string,
+    onProgress?: TranscriptionProgressCallback,
+    signal?: AbortSignal
+): Promise<{ audioPath: string; normalization: AudioNormalization } | null> {
+    if (!config.audioNormalization.enabled) return null;
+
+    const outputPath = path.join(path.dirname(audioPath), `${path.basename(audioPath, path.extname(audioPath))}_normalized.mp3`);
+    const filters = config.audioNormalization.denoise
+        ? [SPEECH_FILTERS[0], DENOISE_FILTER, ...SPEECH_FILTERS.slice(1)]
+        : SPEECH_FILTERS;
+
+    try {
+        onProgress?.(44, 'Optimizing audio for speech recognition...');
+        const before = await summarizeAudio(audioPath, signal);
+
+        await transcodeAudio(audioPath, outputPath, {
+            filters,
+            sampleRate: SPEECH_SAMPLE_RATE,
+            channels: 1,
+            codec: 'libmp3lame',
+            bitRate: `${config.audioNormalization.bitrateKbps}k`,
+            signal,
+        });
+        const after = await summarizeAudio(outputPath, signal);
+
+        console.log(`Normalized audio: ${(before.sizeBytes / 1024 / 1024).toFixed(1)} MB ${before.formatName} -> ${(after.sizeBytes / 1024 / 1024).toFixed(1)} MB ${after.formatName}`);
+        return { audioPath: outputPath, normalization: { before, after, filters } };
+    } catch (err) {
+        console.error('Audio normalization failed, transcribing the original file:', err);
+        fs.rmSync(outputPath, { force: true });
+        return null;
+    }
+}
@@ -0,0 +1,95 @@
+import fs from 'fs';
+import path from 'path';
+import { config } from '../config/config';
+import { DownloadProfile } from '../types';
+
+// Used when no profiles file is configured - the browser-like headers that work on most cloud servers
+const DEFAULT_PROFILES: DownloadProfile[] = [
+    {
+        name: 'default',
+        userAgent: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+        referer: 'https://www.google.com/',
+    },
+];
+
+// yt-dlp errors that another profile (cookies, proxy) may get past
+const AUTH_ERROR = /sign in|log ?in|login required|cookies|authenticat|private video|members[- ]only|registered users|HTTP Error 40[13]|rate[- ]limit/i;
+const GEO_ERROR = /geo[- ]?restrict|not available in your (country|region|location)|from your (country|location)|blocked it in your country/i;
+
+/**
+ * Check a single profile from the profiles file
+ */
+function validateProfile(value: unknown, index: number, baseDir: string): DownloadProfile {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        throw new Error(`Download profile #${index + 1} must be an object`);
+    }
+
+    const profile = value as DownloadProfile;
+    if (typeof profile.name !== 'string' || !profile.name) {
+        throw new Error(`Download profile #${index + 1} needs a name`);
+    }
+    if (profile.platforms !== undefined && (!Array.isArray(profile.platforms) || profile.platforms.some(p => typeof p !== 'string'))) {
+        throw new Error(`Download profile "${profile.name}": platforms must be a list of platform ids`);
+    }
+    if (profile.retries !== undefined && (!Number.isInteger(profile.retries) || profile.retries < 0)) {
+        throw new Error(`Download profile "${profile.name}": retries must be a non-negative integer`);
+    }
+    if (profile.extraArgs !== undefined && (typeof profile.extraArgs !== 'object' || Array.isArray(profile.extraArgs))) {
+        throw new Error(`Download profile "${profile.name}": extraArgs must be an object of yt-dlp options`);
+    }
+
+    // Cookie paths are relative to the profiles file
+    if (profile.cookiesFile) {
+        profile.cookiesFile = path.resolve(baseDir, profile.cookiesFile);
+        if (!fs.existsSync(profile.cookiesFile)) {
+            console.warn(`Download profile "${profile.name}": cookies file not found at ${profile.cookiesFile}`);
+        }
+    }
+
+    return profile;
+}
+
+/**
+ * Load profiles from DOWNLOAD_PROFILES_FILE - fails loudly at startup on a broken file
+ */
+function loadProfiles(): DownloadProfile[] {
+    if (!config.downloadProfilesFile) {
+        return DEFAULT_PROFILES;
+    }
+
+    const filePath = path.resolve(config.downloadProfilesFile);
+    const parsed = JSON.parse(fs.readFileSync(filePath, 'utf8')) as unknown;
+    if (!Array.isArray(parsed) || parsed.length === 0) {
+        throw new Error(`${filePath} must contain a non-empty array of download profiles`);
+    }
+
+    const profiles = parsed.map((value, index) => validateProfile(value, index, path.dirname(filePath)));
+    console.log(`Loaded ${profiles.length} download profiles from ${filePath}`);
+    return profiles;
+}
+
+const profiles = loadProfiles();
+
+/**
+ * Profiles to try for a platform, in order: platform-specific ones first, then the generic ones
+ */
+export function getProfilesForPlatform(platformId: string): DownloadProfile[] {
+    const specific = profiles.filter(p => p.platforms?.includes(platformId));
+    const generic = profiles.filter(p => !p.platforms || p.platforms.length === 0);
+    return [...specific, ...generic];
+}
+
+/**
+ * Browser-like headers for requests no configured profile covers
+ */
+export function getDefaultProfile(): DownloadProfile {
+    return DEFAULT_PROFILES[0];
+}
+
+/**
+ * Check if an error could be fixed by retrying with different cookies or a proxy
+ */
+export function isProfileRetryableError(error: unknown): boolean {
+    const message = error instanceof Error ? error.message : String(error);
+    return AUTH_ERROR.test(message) || GEO_ERROR.test(message);
+}
@@ -2,22 +2,76 @@ import ytdlp from 'yt-dlp-exec';
 import path from 'path';
 import fs from 'fs';
 import { config } from '../config/config';
+import { DownloadOptions, DownloadProfile, DownloadProgressCallback, DownloadResult, MediaInfo, PlatformDefinition } from '../types';
 import { ensureTempDir } from '../utils/helpers';
+import { findPlatform } from './platformRegistry';
+import { getDefaultProfile, getProfilesForPlatform, isProfileRetryableError } from './downloadProfiles';
+import { PreflightError } from './preflightService';
 
-interface DownloadResult {
-    audioPath: string;
-    title: string;
-    duration: number;
+/**
+ * Run a downloader step with each of the platform's download profiles in turn
+ * Moves on to the next profile only for login/geo errors - anything else fails right away
+ */
+async function withProfiles<T>(
+    platform: PlatformDefinition,
+    run: (profile?: DownloadProfile) => Promise<T>,
+    startWith?: string
+): Promise<T> {
+    if (!platform.downloader.usesProfiles) {
+        return run(getDefaultProfile());
+    }
+
+    let profiles = getProfilesForPlatform(platform.id);
+    // Start from the profile that already worked for this video
+    const startIndex = profiles.findIndex(p => p.name === startWith);
+    if (startIndex > 0) {
+        profiles = profiles.slice(startIndex);
+    }
+
+    for (let i = 0; i < profiles.length; i++) {
+        try {
+            return await run(profiles[i]);
+        } catch (error) {
+            if (i === profiles.length - 1 || !isProfileRetryableError(error)) {
+                throw error;
+            }
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            console.warn(`Profile "${profiles[i].name}" failed for ${platform.name} (${errorMessage}), trying "${profiles[i + 1].name}"...`);
+        }
+    }
+
+    // No profiles configured for this platform - still send the default browser headers
+    return run(getDefaultProfile());
 }
 
 /**
- * Download video and extract audio using yt-dlp
- * Works WITHOUT FFmpeg by keeping original audio format
+ * Fetch information about a video without downloading its media
+ */
+export async function probeVideo(url: string, playlistIndex?: number, maxEntries?: number): Promise<MediaInfo> {
+    try {
+        const platform = findPlatform(url);
+        if (!platform) {
+            throw new Error('Unsupported platform');
+        }
+
+        return await withProfiles(platform, profile => platform.downloader.probe(url, playlistIndex, profile, maxEntries));
+
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        console.error('Probe error:', errorMessage);
+        throw new Error(`Failed to fetch video information: ${errorMessage}`);
+    }
+}
+
+/**
+ * Download a video's media using the downloader registered for its platform
  */
 export async function downloadVideo(
     url: string,
     videoId: string,
-    onProgress?: (progress: number, message: string) => void
+    info: MediaInfo,
+    options: DownloadOptions,
+    onProgress?: DownloadProgressCallback
 ): Promise<DownloadResult> {
     ensureTempDir();
 
@@ -26,101 +80,28 @@ export async function downloadVideo(
         fs.mkdirSync(videoDir, { recursive: true });
     }
 
-    // Don't specify mp3, let yt-dlp keep original format (works without ffmpeg)
-    const outputTemplate = path.join(videoDir, 'audio.%(ext)s');
-
     onProgress?.(10, 'Starting download...');
 
     try {
-        // First, get video info with bypass options
-        onProgress?.(15, 'Fetching video information...');
-
-        // Common bypass options for cloud servers
-        const bypassOptions = {
-            noWarnings: true,
-            noCheckCertificate: true,
-            // Use browser-like User-Agent
-            userAgent: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-            // Add referer
-            referer: 'https://www.google.com/',
-            // Extractor retries
-            extractorRetries: 3,
-            // Sleep between retries
-            sleepInterval: 1,
-            // Force IPv4
-            forceIpv4: true,
-        };
-
-        const infoResult = await ytdlp(url, {
-            dumpSingleJson: true,
-            ...bypassOptions,
-        });
-
-        const videoInfo = infoResult as unknown as { title: string; duration: number };
-
-        onProgress?.(25, `Downloading: ${videoInfo.title}`);
-
-        // Try to download as lower bitrate audio to reduce file size
-        // This requires FFmpeg - if not available, fallback to bestaudio
-        let audioPath: string | null = null;
-
-        try {
-            // First try: Convert to low bitrate MP3 (requires FFmpeg)
-            const mp3Output = path.join(videoDir, 'audio.mp3');
-            await ytdlp(url, {
-                format: 'worstaudio',  // Start with smallest audio
-                extractAudio: true,
-                audioFormat: 'mp3',
-                audioQuality: 9,  // 0-9 scale, 9 = lowest quality/smallest file
-                output: path.join(videoDir, 'audio.%(ext)s'),
-                ...bypassOptions,
-                ffmpegLocation: process.env.FFMPEG_PATH ? config.ffmpegPath : undefined,  // Use system FFmpeg on Railway
-            });
-
-            // Check if MP3 was created
-            if (fs.existsSync(mp3Output)) {
-                audioPath = mp3Output;
-                const sizeMB = (fs.statSync(mp3Output).size / (1024 * 1024)).toFixed(2);
-                console.log(`Audio extracted as low-bitrate MP3: ${sizeMB} MB`);
-            }
-        } catch (err) {
-            console.log('Low-bitrate conversion failed (FFmpeg may not be available), trying fallback...');
+        const platform = findPlatform(url);
+        if (!platform) {
+            throw new Error('Unsupported platform');
         }
 
-        // Fallback: Download in original format (no FFmpeg needed)
-        // Use bestaudio/best - falls back to best video if no separate audio (like TikTok)
-        if (!audioPath) {
-            await ytdlp(url, {
-                format: 'bestaudio/best',  // Falls back to 'best' if no audio-only
-                output: path.join(videoDir, 'audio.%(ext)s'),
-                ...bypassOptions,
-            });
-
-            // Find the downloaded audio/video file
-            const files = fs.readdirSync(videoDir);
-            const audioFile = files.find(f =>
-                f.startsWith('audio.') &&
-                (f.endsWith('.webm') || f.endsWith('.m4a') || f.endsWith('.mp3') || f.endsWith('.opus') || f.endsWith('.mp4'))
-            );
-
-            if (audioFile) {
-                audioPath = path.join(videoDir, audioFile);
-            }
-        }
+        console.log(`Downloading ${platform.name} media with ${platform.downloader.name} downloader`);
+        const result = await withProfiles(
+            platform,
+            profile => platform.downloader.download(url, videoDir, info, { ...options, profile }, onProgress),
+            info.profileName
+        );
 
-        onProgress?.(40, 'Download complete!');
-
-        if (!audioPath) {
-            throw new Error('Audio file not found after download');
-        }
-
-        return {
-            audioPath,
-            title: videoInfo.title || 'Unknown Title',
-            duration: videoInfo.duration || 0,
-        };
+        onProgress?.(40, result.captions ? 'Captions found - skipping audio download' : 'Download complete!');
+        return result;
 
     } catch (error) {
+        // Limit errors keep their code for the client
+        if (error instanceof PreflightError) throw error;
+
         const errorMessage = error instanceof Error ? error.message : 'Unknown download error';
         console.error('Download error:', errorMessage);
         throw new Error(`Failed to download video: ${errorMessage}`);
@@ -0,0 +1,146 @@
+import fs from 'fs';
+import path from 'path';
+import { Readable, Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import { Downloader, DownloadOptions, DownloadProgressCallback, DownloadResult, MediaInfo, PreflightLimits } from '../../types';
+import { assertPublicUrl, safeFetch } from '../../utils/safeFetch';
+import { checkFilesizeLimit } from '../preflightService';
+import { reportTransfer } from './progress';
+
+// Minimum time between transfer progress reports
+const REPORT_INTERVAL_MS = 1000;
+
+// File extensions we can hand straight to transcription
+export const MEDIA_EXTENSIONS = ['.mp4', '.mov', '.webm', '.mp3', '.m4a', '.wav', '.ogg', '.opus', '.aac', '.flac'];
+
+/**
+ * Check if a URL points directly at a media file (e.g. https://cdn.example.com/clip.mp4)
+ */
+export function isDirectMediaUrl(url: URL): boolean {
+    return (url.protocol === 'http:' || url.protocol === 'https:') &&
+        MEDIA_EXTENSIONS.includes(path.extname(url.pathname).toLowerCase());
+}
+
+/**
+ * Get the file name from a media URL
+ */
+function getFileName(url: string): string {
+    return decodeURIComponent(path.basename(new URL(url).pathname));
+}
+
+/**
+ * Read the file size with a HEAD request - duration is unknown until FFprobe runs
+ */
+async function probe(url: string): Promise<MediaInfo> {
+    // Fail at submission, not later in the background download
+    await assertPublicUrl(new URL(url));
+
+    let filesizeBytes: number | undefined;
+    try {
+        const response = await safeFetch(url, { method: 'HEAD' });
+        const contentLength = parseInt(response.headers.get('content-length') || '', 10);
+        if (response.ok && contentLength > 0) {
+            filesizeBytes = contentLength;
+        }
+    } catch {
+        // Some servers reject HEAD - the download itself will surface real errors
+    }
+
+    return {
+        title: getFileName(url),
+        duration: 0,
+        filesizeBytes,
+        // Any part of the URL may select different media, so only the exact URL is the same file
+        cacheKey: `direct:${url}`,
+        isLive: false,
+        ageRestricted: false,
+    };
+}
+
+/**
+ * Pass-through stream that counts bytes and reports throttled transfer progress
+ * Fails once more bytes arrive than the size limit allows - Content-Length is missing or wrong on some servers
+ */
+function createTransferCounter(totalBytes: number | undefined, limits?: PreflightLimits, onProgress?: DownloadProgressCallback): Transform {
+    const startedAt = Date.now();
+    let downloadedBytes = 0;
+    let lastReport = 0;
+
+    return new Transform({
+        transform(chunk: Buffer, _encoding, callback) {
+            downloadedBytes += chunk.length;
+            if (limits) {
+                try {
+                    checkFilesizeLimit(downloadedBytes, limits);
+                } catch (err) {
+                    callback(err as Error);
+                    return;
+                }
+            }
+
+            const now = Date.now();
+            if (totalBytes && now - lastReport >= REPORT_INTERVAL_MS) {
+                lastReport = now;
+                const elapsedSeconds = (now - startedAt) / 1000;
+                const speedBytesPerSecond = elapsedSeconds > 0 ? Math.round(downloadedBytes / elapsedSeconds) : undefined;
+
+                reportTransfer(onProgress, 'Downloading', {
+                    percent: Math.min(100, (downloadedBytes / totalBytes) * 100),
+                    downloadedBytes,
+                    totalBytes,
+                    speedBytesPerSecond,
+                    etaSeconds: speedBytesPerSecond ? Math.round((totalBytes - downloadedBytes) / speedBytesPerSecond) : undefined,
+                });
+            }
+
+            callback(null, chunk);
+        },
+    });
+}
+
+/**
+ * Download a plain media file over HTTP(S)
+ */
+async function download(
+    url: string,
+    videoDir: string,
+    info: MediaInfo,
+    options: DownloadOptions,
+    onProgress?: DownloadProgressCallback
+): Promise<DownloadResult> {
+    const fileName = getFileName(url);
+    const audioPath = path.join(videoDir, `audio${path.extname(fileName).toLowerCase()}`);
+
+    onProgress?.(15, `Downloading: ${fileName}`);
+
+    const response = await safeFetch(url);
+    if (!response.ok || !response.body) {
+        throw new Error(`HTTP ${response.status} ${response.statusText}`);
+    }
+
+    const contentType = response.headers.get('content-type') || '';
+    if (contentType.startsWith('text/')) {
+        throw new Error(`URL did not return a media file (content-type: ${contentType})`);
+    }
+
+    await pipeline(
+        Readable.fromWeb(response.body as import('stream/web').ReadableStream),
+        createTransferCounter(parseInt(response.headers.get('content-length') || '', 10) || undefined, options.limits, onProgress),
+        fs.createWriteStream(audioPath)
+    );
+
+    const sizeMB = (fs.statSync(audioPath).size / (1024 * 1024)).toFixed(2);
+    console.log(`Direct media downloaded: ${sizeMB} MB`);
+
+    return {
+        audioPath,
+        title: info.title,
+        duration: info.duration, // Determined later by FFprobe
+    };
+}
+
+export const directDownloader: Downloader = {
+    name: 'direct',
+    probe,
+    download,
+};
@@ -0,0 +1,62 @@
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { Downloader, DownloadOptions, DownloadProgressCallback, DownloadResult, MediaInfo } from '../../types';
+
+/**
+ * Resolve a file:// URL and make sure it points at a file
+ */
+function resolveSourcePath(url: string): string {
+    const sourcePath = fileURLToPath(url);
+
+    if (!fs.existsSync(sourcePath) || !fs.statSync(sourcePath).isFile()) {
+        throw new Error(`Local file not found: ${sourcePath}`);
+    }
+    return sourcePath;
+}
+
+/**
+ * Read the file size - duration is unknown until FFprobe runs
+ */
+async function probe(url: string): Promise<MediaInfo> {
+    const sourcePath = resolveSourcePath(url);
+
+    return {
+        title: path.basename(sourcePath),
+        duration: 0,
+        filesizeBytes: fs.statSync(sourcePath).size,
+        isLive: false,
+        ageRestricted: false,
+    };
+}
+
+/**
+ * Copy a local media file (file:// URL) into the job directory
+ * Only registered when ALLOW_LOCAL_FILES=true - it can read anything the server can
+ */
+async function download(
+    url: string,
+    videoDir: string,
+    info: MediaInfo,
+    _options: DownloadOptions,
+    onProgress?: DownloadProgressCallback
+): Promise<DownloadResult> {
+    const sourcePath = resolveSourcePath(url);
+    const fileName = path.basename(sourcePath);
+    const audioPath = path.join(videoDir, `audio${path.extname(fileName).toLowerCase()}`);
+
+    onProgress?.(15, `Copying local file: ${fileName}`);
+    await fs.promises.copyFile(sourcePath, audioPath);
+
+    return {
+        audioPath,
+        title: info.title,
+        duration: info.duration, // Determined later by FFprobe
+    };
+}
+
+export const localFileDownloader: Downloader = {
+    name: 'file',
+    probe,
+    download,
+};
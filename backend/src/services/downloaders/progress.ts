@@ -0,0 +1,31 @@
+import { DownloadProgress, DownloadProgressCallback } from '../../types';
+import { formatBytes, formatDuration } from '../../utils/helpers';
+
+// The media transfer spans this part of the overall job progress
+const TRANSFER_START = 25;
+const TRANSFER_END = 40;
+
+/**
+ * Report transfer stats as job progress with a readable message
+ */
+export function reportTransfer(
+    onProgress: DownloadProgressCallback | undefined,
+    label: string,
+    transfer: DownloadProgress
+): void {
+    const progress = TRANSFER_START + Math.round((transfer.percent / 100) * (TRANSFER_END - TRANSFER_START));
+
+    const details: string[] = [];
+    if (transfer.totalBytes) {
+        details.push(`${formatBytes(transfer.downloadedBytes || 0)} of ${formatBytes(transfer.totalBytes)}`);
+    }
+    if (transfer.speedBytesPerSecond) {
+        details.push(`${formatBytes(transfer.speedBytesPerSecond)}/s`);
+    }
+    if (transfer.etaSeconds !== undefined) {
+        details.push(`ETA ${formatDuration(transfer.etaSeconds)}`);
+    }
+
+    const message = `${label} ${transfer.percent.toFixed(0)}%` + (details.length > 0 ? ` (${details.join(', ')})` : '');
+    onProgress?.(Math.min(progress, TRANSFER_END), message, transfer);
+}
@@ -0,0 +1,484 @@
+import ytdlp, { exec as ytdlpExec } from 'yt-dlp-exec';
+import path from 'path';
+import fs from 'fs';
+import { config } from '../../config/config';
+import { CaptionTrack, Downloader, DownloadOptions, DownloadProfile, DownloadProgress, DownloadProgressCallback, DownloadResult, MediaEntry, MediaInfo, VideoMetadata } from '../../types';
+import { parseSubtitles, cuesToSegments } from '../../utils/subtitles';
+import { segmentsToText } from '../../utils/transcript';
+import { reportTransfer } from './progress';
+
+type YtDlpFlags = Parameters<typeof ytdlp>[1];
+
+// Subset of the yt-dlp info JSON we use
+interface VideoInfo {
+    _type?: string; // 'playlist' for playlists, channel tabs and multi-video posts
+    entries?: Array<VideoInfo | null>;
+    playlist_count?: number; // all entries of a playlist, also when the listing stopped early
+    url?: string;   // entry URL in flat playlists
+    id?: string;
+    extractor_key?: string; // e.g. 'Youtube', 'Instagram'
+    ie_key?: string;        // extractor of an entry in flat playlists
+    title: string;
+    duration: number;
+    language?: string;
+    uploader?: string;
+    uploader_id?: string;
+    channel?: string;
+    channel_id?: string;
+    upload_date?: string; // YYYYMMDD
+    timestamp?: number;   // Unix seconds, some extractors only provide this
+    description?: string;
+    view_count?: number;
+    like_count?: number;
+    thumbnail?: string;
+    webpage_url?: string;
+    is_live?: boolean;
+    live_status?: string; // 'is_live', 'is_upcoming', 'was_live', 'not_live', ...
+    age_limit?: number;
+    filesize?: number;
+    filesize_approx?: number;
+    formats?: Array<{ vcodec?: string; acodec?: string; filesize?: number; filesize_approx?: number }>;
+    subtitles?: Record<string, unknown[]>;
+    automatic_captions?: Record<string, unknown[]>;
+}
+
+// Common bypass options for cloud servers
+const baseOptions = {
+    noWarnings: true,
+    noCheckCertificate: true,
+    // Extractor retries
+    extractorRetries: 3,
+    // Sleep between retries
+    sleepInterval: 1,
+    // Force IPv4
+    forceIpv4: true,
+};
+
+/**
+ * Build the yt-dlp flags for a download profile (cookies, proxy, headers, ...)
+ * Spread first at each call so extraArgs cannot replace the output path, format or playlist selection
+ */
+function profileFlags(profile?: DownloadProfile): YtDlpFlags {
+    if (!profile) return baseOptions;
+
+    return {
+        ...baseOptions,
+        userAgent: profile.userAgent,
+        referer: profile.referer,
+        cookies: profile.cookiesFile,
+        proxy: profile.proxy,
+        limitRate: profile.rateLimit,
+        retries: profile.retries,
+        ...(profile.extraArgs as YtDlpFlags),
+    };
+}
+
+// [download]  45.3% of ~ 10.00MiB at  1.23MiB/s ETA 00:05
+const PROGRESS_LINE = /\[download\]\s+([\d.]+)%\s+of\s+~?\s*([\d.]+)([KMGT]?i?B)(?:\s+at\s+([\d.]+)([KMGT]?i?B)\/s)?(?:\s+ETA\s+([\d:]+))?/;
+
+const SIZE_UNITS: Record<string, number> = {
+    B: 1,
+    KiB: 1024, MiB: 1024 ** 2, GiB: 1024 ** 3, TiB: 1024 ** 4,
+    KB: 1000, MB: 1000 ** 2, GB: 1000 ** 3, TB: 1000 ** 4,
+};
+
+/**
+ * Parse a yt-dlp progress line into transfer stats
+ */
+function parseProgressLine(line: string): DownloadProgress | undefined {
+    const match = PROGRESS_LINE.exec(line);
+    if (!match) return undefined;
+
+    const percent = parseFloat(match[1]);
+    const totalBytes = Math.round(parseFloat(match[2]) * (SIZE_UNITS[match[3]] || 1));
+
+    return {
+        percent,
+        totalBytes,
+        downloadedBytes: Math.round(totalBytes * percent / 100),
+        speedBytesPerSecond: match[4] ? Math.round(parseFloat(match[4]) * (SIZE_UNITS[match[5]] || 1)) : undefined,
+        etaSeconds: match[6] ? match[6].split(':').map(Number).reduce((total, part) => total * 60 + part, 0) : undefined,
+    };
+}
+
+/**
+ * Run a yt-dlp download and stream its progress output
+ */
+async function runDownload(
+    url: string,
+    flags: YtDlpFlags,
+    onTransfer: (transfer: DownloadProgress) => void
+): Promise<void> {
+    // --newline prints each progress update on its own line instead of redrawing with \r
+    const subprocess = ytdlpExec(url, { ...flags, newline: true });
+
+    let buffered = '';
+    subprocess.stdout?.on('data', (chunk: Buffer) => {
+        buffered += chunk.toString();
+        const lines = buffered.split(/\r?\n|\r/);
+        buffered = lines.pop() || '';
+
+        for (const line of lines) {
+            const transfer = parseProgressLine(line);
+            if (transfer) {
+                onTransfer(transfer);
+            }
+        }
+    });
+
+    await subprocess;
+}
+
+/**
+ * Map the yt-dlp info JSON to our metadata shape
+ */
+function extractMetadata(info: VideoInfo): VideoMetadata {
+    let uploadDate: string | undefined;
+    if (info.upload_date && /^\d{8}$/.test(info.upload_date)) {
+        uploadDate = `${info.upload_date.slice(0, 4)}-${info.upload_date.slice(4, 6)}-${info.upload_date.slice(6, 8)}`;
+    } else if (info.timestamp) {
+        uploadDate = new Date(info.timestamp * 1000).toISOString().slice(0, 10);
+    }
+
+    return {
+        uploader: info.uploader || undefined,
+        uploaderId: info.uploader_id || undefined,
+        channel: info.channel || undefined,
+        channelId: info.channel_id || undefined,
+        uploadDate,
+        description: info.description || undefined,
+        viewCount: info.view_count ?? undefined,
+        likeCount: info.like_count ?? undefined,
+        thumbnailUrl: info.thumbnail || undefined,
+        webpageUrl: info.webpage_url || undefined,
+    };
+}
+
+/**
+ * Estimate the size of what we will download
+ * We only fetch audio, so use the largest audio-only format (bestaudio fallback);
+ * platforms without audio-only formats (e.g. TikTok) download the full video
+ */
+function estimateFilesize(info: VideoInfo): number | undefined {
+    const audioSizes = (info.formats || [])
+        .filter(f => f.vcodec === 'none' && f.acodec !== 'none')
+        .map(f => f.filesize || f.filesize_approx || 0)
+        .filter(size => size > 0);
+
+    if (audioSizes.length > 0) {
+        return Math.max(...audioSizes);
+    }
+    return info.filesize || info.filesize_approx || undefined;
+}
+
+/**
+ * Map playlist entries to child URLs
+ * Entries without their own URL (several videos in one X post) are addressed by index on the parent URL
+ */
+function extractEntries(url: string, info: VideoInfo): MediaEntry[] {
+    const entries: MediaEntry[] = [];
+
+    (info.entries || []).forEach((entry, index) => {
+        if (!entry) return; // unavailable/private entries
+
+        const entryUrl = entry.webpage_url || entry.url;
+        const hasOwnUrl = !!entryUrl && /^https?:\/\//.test(entryUrl) &&
+            entryUrl !== url && entryUrl !== info.webpage_url;
+
+        entries.push({
+            url: hasOwnUrl ? entryUrl : url,
+            title: entry.title || undefined,
+            duration: entry.duration || undefined,
+            playlistIndex: hasOwnUrl ? undefined : index + 1,
+        });
+    });
+
+    return entries;
+}
+
+/**
+ * Fetch video info with yt-dlp without downloading the media
+ * Playlists are fetched flat and stop after maxEntries + 1 entries, so large channels aren't listed in full -
+ * the extra entry shows the listing was cut off
+ */
+async function probe(url: string, playlistIndex?: number, profile?: DownloadProfile, maxEntries?: number): Promise<MediaInfo> {
+    const infoResult = await ytdlp(url, {
+        ...profileFlags(profile),
+        dumpSingleJson: true,
+        flatPlaylist: true,
+        playlistItems: playlistIndex ? String(playlistIndex) : undefined,
+        playlistEnd: !playlistIndex && maxEntries ? maxEntries + 1 : undefined,
+    });
+
+    let videoInfo = infoResult as unknown as VideoInfo;
+
+    if (videoInfo._type === 'playlist') {
+        const entries = (videoInfo.entries || []).filter((e): e is VideoInfo => !!e);
+
+        if (playlistIndex && entries.length === 1) {
+            // Narrowed down to a single entry of a multi-video post
+            videoInfo = entries[0];
+        } else {
+            return {
+                title: videoInfo.title || 'Untitled playlist',
+                duration: 0,
+                isLive: false,
+                ageRestricted: false,
+                metadata: extractMetadata(videoInfo),
+                profileName: profile?.name,
+                entries: extractEntries(url, videoInfo),
+                entryCount: videoInfo.playlist_count || undefined,
+                raw: videoInfo,
+            };
+        }
+    }
+
+    return {
+        title: videoInfo.title || 'Unknown Title',
+        duration: videoInfo.duration || 0,
+        filesizeBytes: estimateFilesize(videoInfo),
+        isLive: !!videoInfo.is_live || videoInfo.live_status === 'is_live' || videoInfo.live_status === 'is_upcoming',
+        ageRestricted: (videoInfo.age_limit || 0) >= 18,
+        metadata: extractMetadata(videoInfo),
+        language: videoInfo.language,
+        profileName: profile?.name,
+        cacheKey: getCacheKey(videoInfo),
+        playlistIndex,
+        raw: videoInfo,
+    };
+}
+
+/**
+ * Identify a video by extractor and ID, so every URL variant of it shares one cache entry
+ */
+function getCacheKey(videoInfo: VideoInfo): string | undefined {
+    const extractor = videoInfo.extractor_key || videoInfo.ie_key;
+    if (!extractor || !videoInfo.id) return undefined;
+    return `${extractor.toLowerCase()}:${videoInfo.id}`;
+}
+
+/**
+ * Find the subtitle track key for a language ("en" matches "en", "en-US", "en-GB", ...)
+ */
+function findTrackKey(tracks: Record<string, unknown[]> | undefined, language: string): string | undefined {
+    if (!tracks) return undefined;
+    const keys = Object.keys(tracks).filter(key => key !== 'live_chat');
+    return keys.find(key => key === language) ||
+        keys.find(key => key.toLowerCase().startsWith(`${language}-`));
+}
+
+/**
+ * Pick the best caption track for the requested language
+ * Manual subtitles first; auto-generated captions only when they are in the video's original
+ * language - YouTube also offers machine-translated auto captions for every language
+ */
+function selectCaptionTrack(info: VideoInfo, language: string): { key: string; automatic: boolean } | undefined {
+    const manualKey = findTrackKey(info.subtitles, language);
+    if (manualKey) {
+        return { key: manualKey, automatic: false };
+    }
+
+    const automatic = info.automatic_captions;
+    if (automatic?.[`${language}-orig`]) {
+        return { key: `${language}-orig`, automatic: true };
+    }
+
+    const originalLanguage = info.language?.toLowerCase();
+    if (!originalLanguage || originalLanguage === language || originalLanguage.startsWith(`${language}-`)) {
+        const autoKey = findTrackKey(automatic, language);
+        if (autoKey) {
+            return { key: autoKey, automatic: true };
+        }
+    }
+
+    return undefined;
+}
+
+/**
+ * Download the platform's subtitles and convert them to a transcript
+ * Returns undefined when no usable track exists - the caller falls back to audio transcription
+ */
+async function fetchCaptions(
+    url: string,
+    videoDir: string,
+    info: VideoInfo,
+    language: string,
+    playlistIndex?: number,
+    profile?: DownloadProfile
+): Promise<CaptionTrack | undefined> {
+    const track = selectCaptionTrack(info, language);
+    if (!track) {
+        return undefined;
+    }
+
+    try {
+        await ytdlp(url, {
+            ...profileFlags(profile),
+            skipDownload: true,
+            // Only pass the flag we need - dargs turns `false` into --no-<flag>
+            ...(track.automatic ? { writeAutoSub: true } : { writeSub: true }),
+            subLang: track.key,
+            subFormat: 'vtt/srt/best',
+            playlistItems: playlistIndex ? String(playlistIndex) : undefined,
+            output: path.join(videoDir, 'captions.%(ext)s'),
+        });
+
+        const captionFile = fs.readdirSync(videoDir).find(f =>
+            f.startsWith('captions.') && (f.endsWith('.vtt') || f.endsWith('.srt'))
+        );
+        if (!captionFile) {
+            return undefined;
+        }
+
+        const cues = parseSubtitles(fs.readFileSync(path.join(videoDir, captionFile), 'utf8'));
+        const segments = cuesToSegments(cues);
+        if (segments.length === 0) {
+            return undefined;
+        }
+
+        console.log(`Using ${track.automatic ? 'auto-generated' : 'manual'} captions (${track.key}): ${cues.length} cues`);
+        return {
+            transcription: segmentsToText(segments),
+            segments,
+            language: track.key,
+            source: track.automatic ? 'auto_captions' : 'manual_captions',
+        };
+    } catch (err) {
+        console.log('Caption download failed, falling back to audio transcription...');
+        return undefined;
+    }
+}
+
+/**
+ * Download a video track of at most 720p for the visual stage
+ * A failure only skips reading on-screen text, so it is logged instead of thrown
+ */
+async function downloadVideoTrack(
+    url: string,
+    videoDir: string,
+    playlistItems: string | undefined,
+    profile: DownloadProfile | undefined,
+    onProgress?: DownloadProgressCallback
+): Promise<string | undefined> {
+    try {
+        await runDownload(url, {
+            ...profileFlags(profile),
+            format: 'bestvideo[height<=720]/best[height<=720]/worstvideo/worst',
+            playlistItems,
+            output: path.join(videoDir, 'video.%(ext)s'),
+        }, transfer => reportTransfer(onProgress, 'Downloading video', transfer));
+
+        const videoFile = fs.readdirSync(videoDir).find(f => f.startsWith('video.') && !f.endsWith('.part'));
+        return videoFile ? path.join(videoDir, videoFile) : undefined;
+    } catch (err) {
+        console.log('Video download failed, on-screen text will not be read:', err);
+        return undefined;
+    }
+}
+
+/**
+ * Download video and extract audio using yt-dlp
+ * Works WITHOUT FFmpeg by keeping original audio format
+ * Skips the audio entirely when usable captions exist
+ */
+async function download(
+    url: string,
+    videoDir: string,
+    info: MediaInfo,
+    options: DownloadOptions,
+    onProgress?: DownloadProgressCallback
+): Promise<DownloadResult> {
+    const videoInfo = info.raw as VideoInfo;
+    // Multi-video posts: only fetch the entry this job was created for
+    const playlistItems = info.playlistIndex ? String(info.playlistIndex) : undefined;
+
+    if (options.useCaptions) {
+        onProgress?.(20, 'Checking for captions...');
+        const captions = await fetchCaptions(url, videoDir, videoInfo, options.language, info.playlistIndex, options.profile);
+        if (captions) {
+            return {
+                videoPath: options.includeVideo
+                    ? await downloadVideoTrack(url, videoDir, playlistItems, options.profile, onProgress)
+                    : undefined,
+                title: info.title,
+                duration: info.duration,
+                metadata: info.metadata,
+                captions,
+            };
+        }
+    }
+
+    onProgress?.(25, `Downloading: ${info.title}`);
+    const onTransfer = (transfer: DownloadProgress) => reportTransfer(onProgress, 'Downloading', transfer);
+
+    // Download audio good enough for speech and convert it to MP3 - normalization downsamples it afterwards
+    // This requires FFmpeg - if not available, fallback to bestaudio
+    let audioPath: string | null = null;
+
+    try {
+        // First try: Convert to MP3 (requires FFmpeg)
+        const mp3Output = path.join(videoDir, 'audio.mp3');
+        await runDownload(url, {
+            ...profileFlags(options.profile),
+            format: 'bestaudio[abr<=64]/worstaudio',  // Speech needs no more than 64 kbps; smallest audio when none is listed that low
+            extractAudio: true,
+            audioFormat: 'mp3',
+            audioQuality: 5,  // 0-9 VBR scale - mid quality so the conversion loses little of the source
+            playlistItems,
+            output: path.join(videoDir, 'audio.%(ext)s'),
+            ffmpegLocation: config.ffmpegPath || undefined,  // Directory or binary; empty uses the system FFmpeg
+        }, onTransfer);
+
+        // Check if MP3 was created
+        if (fs.existsSync(mp3Output)) {
+            audioPath = mp3Output;
+            const sizeMB = (fs.statSync(mp3Output).size / (1024 * 1024)).toFixed(2);
+            console.log(`Audio extracted as low-bitrate MP3: ${sizeMB} MB`);
+        }
+    } catch (err) {
+        console.log('Low-bitrate conversion failed (FFmpeg may not be available), trying fallback...');
+    }
+
+    // Fallback: Download in original format (no FFmpeg needed)
+    // Use bestaudio/best - falls back to best video if no separate audio (like TikTok)
+    if (!audioPath) {
+        await runDownload(url, {
+            ...profileFlags(options.profile),
+            format: 'bestaudio/best',  // Falls back to 'best' if no audio-only
+            playlistItems,
+            output: path.join(videoDir, 'audio.%(ext)s'),
+        }, onTransfer);
+
+        // Find the downloaded audio/video file
+        const files = fs.readdirSync(videoDir);
+        const audioFile = files.find(f =>
+            f.startsWith('audio.') &&
+            (f.endsWith('.webm') || f.endsWith('.m4a') || f.endsWith('.mp3') || f.endsWith('.opus') || f.endsWith('.mp4'))
+        );
+
+        if (audioFile) {
+            audioPath = path.join(videoDir, audioFile);
+        }
+    }
+
+    if (!audioPath) {
+        throw new Error('Audio file not found after download');
+    }
+
+    return {
+        audioPath,
+        videoPath: options.includeVideo
+            ? await downloadVideoTrack(url, videoDir, playlistItems, options.profile, onProgress)
+            : undefined,
+        title: info.title,
+        duration: info.duration,
+        metadata: info.metadata,
+    };
+}
+
+export const ytdlpDownloader: Downloader = {
+    name: 'yt-dlp',
+    usesProfiles: true,
+    probe,
+    download,
+};
@@ -0,0 +1,104 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { config } from '../../config/config';
+import { localEvidence } from './localEvidence';
+
+describe('localEvidence', () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'evidence-'));
+        config.evidence.localDir = dir;
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    const search = (claim: string, maxResults: number = 5) => localEvidence.search({ claim, language: 'en', maxResults });
+
+    it('is only configured when the folder exists', async () => {
+        expect(await localEvidence.isConfigured()).toBe(true);
+
+        config.evidence.localDir = path.join(dir, 'missing');
+        expect(await localEvidence.isConfigured()).toBe(false);
+
+        config.evidence.localDir = '';
+        expect(await localEvidence.isConfigured()).toBe(false);
+    });
+
+    it('returns the paragraph of a text document that matches the claim, named by its header lines', async () => {
+        fs.writeFileSync(path.join(dir, 'report.md'), [
+            'Title: Census 2020',
+            'URL: https://example.org/census',
+            '',
+            '# Population',
+            '',
+            'The population of Springfield was 30720 in the 2020 census.',
+            '',
+            'Rainfall in the region averages 800 millimetres per year.',
+        ].join('\n'));
+
+        const results = await search('Springfield had a population of 30720');
+        expect(results).toEqual([{
+            provider: 'local',
+            title: 'Census 2020',
+            url: 'https://example.org/census',
+            snippet: 'The population of Springfield was 30720 in the 2020 census.',
+        }]);
+    });
+
+    it('names a text document by its first heading, or its file name', async () => {
+        fs.writeFileSync(path.join(dir, 'notes.txt'), '# River facts\n\nThe river is 410 kilometres long.');
+        fs.writeFileSync(path.join(dir, 'bridges.txt'), 'The bridge over the river opened in 1932.');
+
+        expect((await search('the river is 410 kilometres long'))[0].title).toBe('River facts');
+        expect((await search('the bridge opened in 1932'))[0].title).toBe('bridges');
+    });
+
+    it('reads JSON documents with one or several passages', async () => {
+        fs.writeFileSync(path.join(dir, 'single.json'), JSON.stringify({ title: 'Moon', text: 'The Moon orbits Earth every 27 days.' }));
+        fs.writeFileSync(path.join(dir, 'list.json'), JSON.stringify([
+            { title: 'Mars', url: 'https://example.org/mars', text: 'Mars has two moons, Phobos and Deimos.' },
+            { title: 'Broken' },
+        ]));
+
+        expect(await search('the moon orbits earth every 27 days')).toMatchObject([{ title: 'Moon', url: undefined }]);
+        expect(await search('mars has two moons')).toMatchObject([{ title: 'Mars', url: 'https://example.org/mars' }]);
+    });
+
+    it('ignores files that are not documents and skips broken ones', async () => {
+        fs.writeFileSync(path.join(dir, 'data.csv'), 'The volcano erupted in 1883.');
+        fs.writeFileSync(path.join(dir, 'broken.json'), '{ not json');
+
+        expect(await search('the volcano erupted in 1883')).toEqual([]);
+    });
+
+    it('only returns passages sharing enough of the claim words, ranked by rare words and capped at maxResults', async () => {
+        fs.writeFileSync(path.join(dir, 'facts.txt'), [
+            'Copper prices rose sharply in 2021.',
+            'Copper mining in Chile employs thousands of workers.',
+            'Copper is a metal.',
+            'Bananas are yellow fruit.',
+        ].join('\n\n'));
+
+        const results = await search('copper mining in Chile rose');
+        expect(results.map(result => result.snippet)).toEqual([
+            'Copper mining in Chile employs thousands of workers.',
+            'Copper prices rose sharply in 2021.',
+        ]);
+        expect(await search('copper mining in Chile rose', 1)).toHaveLength(1);
+        expect(await search('bananas')).toHaveLength(1);
+        expect(await search('an is of')).toEqual([]);
+    });
+
+    it('picks up documents added after the first search', async () => {
+        fs.writeFileSync(path.join(dir, 'first.txt'), 'The tower stands in Paris.');
+        expect(await search('the lake is 501 metres deep')).toEqual([]);
+
+        fs.writeFileSync(path.join(dir, 'second.txt'), 'The lake is 501 metres deep.');
+        expect(await search('the lake is 501 metres deep')).toHaveLength(1);
+    });
+});
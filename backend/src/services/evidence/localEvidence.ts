@@ -0,0 +1,148 @@
+import fs from 'fs';
+import path from 'path';
+import { config } from '../../config/config';
+import { EvidencePassage, EvidenceProvider, EvidenceQuery } from '../../types';
+
+// A paragraph of a local document, with its words for scoring
+interface IndexedPassage {
+    title: string;
+    url?: string;
+    text: string;
+    words: Set<string>;
+}
+
+interface LocalIndex {
+    signature: string; // file names and modification times the index was built from
+    passages: IndexedPassage[];
+    documentFrequency: Map<string, number>;
+}
+
+// A passage must share at least this share of the claim's words to be returned
+const MIN_MATCH_RATIO = 0.3;
+
+const DOCUMENT_EXTENSIONS = ['.txt', '.md', '.json'];
+
+let index: LocalIndex | undefined;
+
+// Lowercase words of at least 3 letters, and all numbers - "the" and "of" say little about a match
+function toWords(text: string): Set<string> {
+    return new Set(
+        text.toLowerCase()
+            .split(/[^\p{L}\p{N}]+/u)
+            .filter(word => word.length >= 3 || /^\d+$/.test(word))
+    );
+}
+
+/**
+ * Split a text document into paragraphs
+ * Optional "Title: ..." and "URL: ..." lines at the top name the source; otherwise the first heading or the file name is used
+ */
+function parseTextDocument(fileName: string, content: string): Array<Omit<IndexedPassage, 'words'>> {
+    let title: string | undefined;
+    let url: string | undefined;
+
+    const lines = content.replace(/\r/g, '').split('\n');
+    while (lines.length > 0) {
+        const header = /^(title|url):\s*(.+)$/i.exec(lines[0].trim());
+        if (!header) break;
+        if (header[1].toLowerCase() === 'title') title = header[2].trim();
+        else url = header[2].trim();
+        lines.shift();
+    }
+
+    const heading = lines.find(line => /^#\s+/.test(line));
+    const documentTitle = title || heading?.replace(/^#\s+/, '').trim() || path.basename(fileName, path.extname(fileName));
+
+    return lines.join('\n')
+        .split(/\n\s*\n/)
+        .map(paragraph => paragraph.replace(/^#+\s+.*$/gm, '').replace(/\s+/g, ' ').trim())
+        .filter(paragraph => paragraph.length > 0)
+        .map(text => ({ title: documentTitle, url, text }));
+}
+
+/**
+ * Read a JSON document: one { title, url?, text } object or an array of them
+ */
+function parseJsonDocument(fileName: string, content: string): Array<Omit<IndexedPassage, 'words'>> {
+    const data = JSON.parse(content) as unknown;
+    const items = Array.isArray(data) ? data : [data];
+
+    return items
+        .filter((item): item is { title?: string; url?: string; text: string } => typeof item?.text === 'string')
+        .map(item => ({
+            title: item.title || path.basename(fileName, '.json'),
+            url: item.url,
+            text: item.text.trim(),
+        }));
+}
+
+/**
+ * Index the documents in EVIDENCE_DIR - rebuilt whenever a file is added, removed or changed
+ */
+function loadIndex(): LocalIndex {
+    const dir = config.evidence.localDir;
+    const files = fs.readdirSync(dir)
+        .filter(file => DOCUMENT_EXTENSIONS.includes(path.extname(file).toLowerCase()))
+        .sort();
+    const signature = files.map(file => `${file}:${fs.statSync(path.join(dir, file)).mtimeMs}`).join('|');
+    if (index && index.signature === signature) return index;
+
+    const passages: IndexedPassage[] = [];
+    for (const file of files) {
+        try {
+            const content = fs.readFileSync(path.join(dir, file), 'utf8');
+            const parsed = path.extname(file).toLowerCase() === '.json'
+                ? parseJsonDocument(file, content)
+                : parseTextDocument(file, content);
+            passages.push(...parsed.map(passage => ({ ...passage, words: toWords(`${passage.title} ${passage.text}`) })));
+        } catch (err) {
+            console.error(`Skipping evidence document ${file}:`, err);
+        }
+    }
+
+    const documentFrequency = new Map<string, number>();
+    for (const passage of passages) {
+        passage.words.forEach(word => documentFrequency.set(word, (documentFrequency.get(word) || 0) + 1));
+    }
+
+    console.log(`Indexed ${passages.length} evidence passages from ${files.length} local documents`);
+    index = { signature, passages, documentFrequency };
+    return index;
+}
+
+/**
+ * Find the local passages sharing the most (and rarest) words with the claim
+ */
+async function search(query: EvidenceQuery): Promise<EvidencePassage[]> {
+    const { passages, documentFrequency } = loadIndex();
+    const claimWords = [...toWords(query.claim)];
+    if (claimWords.length === 0) return [];
+
+    return passages
+        .map(passage => {
+            const matched = claimWords.filter(word => passage.words.has(word));
+            // Rare words count more than words found in every document
+            const score = matched.reduce((total, word) => total + Math.log(1 + passages.length / (documentFrequency.get(word) || 1)), 0);
+            return { passage, score, ratio: matched.length / claimWords.length };
+        })
+        .filter(result => result.ratio >= MIN_MATCH_RATIO)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, query.maxResults)
+        .map(({ passage }) => ({
+            provider: 'local',
+            title: passage.title,
+            url: passage.url,
+            snippet: passage.text,
+        }));
+}
+
+async function isConfigured(): Promise<boolean> {
+    return !!config.evidence.localDir && fs.existsSync(config.evidence.localDir);
+}
+
+export const localEvidence: EvidenceProvider = {
+    name: 'local',
+    online: false,
+    search,
+    isConfigured,
+};
@@ -0,0 +1,57 @@
+import { config } from '../../config/config';
+import { EvidencePassage, EvidenceProvider, EvidenceQuery } from '../../types';
+
+const SEARCH_ENDPOINT = 'https://api.search.brave.com/res/v1/web/search';
+
+interface BraveSearchResponse {
+    web?: {
+        results?: Array<{ title: string; url: string; description?: string; extra_snippets?: string[] }>;
+    };
+}
+
+// Search result descriptions highlight the matched words with <strong>
+function stripTags(text: string): string {
+    return text.replace(/<[^>]+>/g, '').replace(/&quot;/g, '"').replace(/&#39;/g, "'").replace(/&amp;/g, '&');
+}
+
+/**
+ * Search the web with the Brave Search API - each result's description and extra snippets form the passage
+ */
+async function search(query: EvidenceQuery): Promise<EvidencePassage[]> {
+    const params = new URLSearchParams({
+        q: query.claim,
+        count: String(query.maxResults),
+        search_lang: query.language.toLowerCase().split('-')[0],
+        extra_snippets: 'true',
+    });
+
+    const response = await fetch(`${SEARCH_ENDPOINT}?${params}`, {
+        headers: {
+            'Accept': 'application/json',
+            'X-Subscription-Token': config.evidence.webSearchApiKey,
+        },
+        signal: AbortSignal.timeout(config.evidence.timeoutSeconds * 1000),
+    });
+    if (!response.ok) {
+        throw new Error(`Web search failed: HTTP ${response.status}`);
+    }
+
+    const data = await response.json() as BraveSearchResponse;
+    return (data.web?.results || []).map(result => ({
+        provider: 'web',
+        title: stripTags(result.title),
+        url: result.url,
+        snippet: stripTags([result.description, ...(result.extra_snippets || [])].filter(Boolean).join(' … ')),
+    }));
+}
+
+async function isConfigured(): Promise<boolean> {
+    return !!config.evidence.webSearchApiKey;
+}
+
+export const webSearchEvidence: EvidenceProvider = {
+    name: 'web',
+    online: true,
+    search,
+    isConfigured,
+};
@@ -0,0 +1,69 @@
+import { config } from '../../config/config';
+import { EvidencePassage, EvidenceProvider, EvidenceQuery } from '../../types';
+
+// Wikimedia asks API clients to identify themselves
+const USER_AGENT = 'video-fact-checker/1.0 (evidence retrieval)';
+
+// Sentences of each article intro returned as the passage
+const EXTRACT_SENTENCES = 5;
+
+// Longer queries rarely match any article - search for the first words of the claim
+const MAX_QUERY_WORDS = 12;
+
+interface WikipediaSearchResponse {
+    query?: {
+        pages?: Record<string, { title: string; extract?: string; fullurl?: string; index?: number }>;
+    };
+}
+
+/**
+ * Search Wikipedia in the claim's language and return the intros of the best matching articles
+ */
+async function search(query: EvidenceQuery): Promise<EvidencePassage[]> {
+    const terms = query.claim.replace(/[^\p{L}\p{N}%.\s-]/gu, ' ').split(/\s+/).filter(Boolean).slice(0, MAX_QUERY_WORDS).join(' ');
+    const wiki = query.language.toLowerCase().split('-')[0];
+
+    const params = new URLSearchParams({
+        action: 'query',
+        format: 'json',
+        generator: 'search',
+        gsrsearch: terms,
+        gsrlimit: String(query.maxResults),
+        prop: 'extracts|info',
+        exintro: '1',
+        explaintext: '1',
+        exsentences: String(EXTRACT_SENTENCES),
+        inprop: 'url',
+        utf8: '1',
+    });
+
+    const response = await fetch(`https://${wiki}.wikipedia.org/w/api.php?${params}`, {
+        headers: { 'User-Agent': USER_AGENT },
+        signal: AbortSignal.timeout(config.evidence.timeoutSeconds * 1000),
+    });
+    if (!response.ok) {
+        throw new Error(`Wikipedia search failed: HTTP ${response.status}`);
+    }
+
+    const data = await response.json() as WikipediaSearchResponse;
+    return Object.values(data.query?.pages || {})
+        .sort((a, b) => (a.index ?? 0) - (b.index ?? 0))
+        .filter(page => page.extract)
+        .map(page => ({
+            provider: 'wikipedia',
+            title: page.title,
+            url: page.fullurl,
+            snippet: page.extract as string,
+        }));
+}
+
+async function isConfigured(): Promise<boolean> {
+    return true;
+}
+
+export const wikipediaEvidence: EvidenceProvider = {
+    name: 'wikipedia',
+    online: true,
+    search,
+    isConfigured,
+};
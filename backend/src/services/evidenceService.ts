@@ -0,0 +1,99 @@
+import { config } from '../config/config';
+import { EvidencePassage, EvidenceProvider } from '../types';
+import { mapWithConcurrency } from '../utils/helpers';
+import { localEvidence } from './evidence/localEvidence';
+import { webSearchEvidence } from './evidence/webSearchEvidence';
+import { wikipediaEvidence } from './evidence/wikipediaEvidence';
+
+// Registered evidence providers by name
+const providers: Map<string, EvidenceProvider> = new Map();
+
+/**
+ * Register an evidence provider (replaces an existing one with the same name)
+ */
+export function registerEvidenceProvider(provider: EvidenceProvider): void {
+    providers.set(provider.name, provider);
+}
+
+/**
+ * Get the names of all registered providers
+ */
+export function getEvidenceProviderNames(): string[] {
+    return Array.from(providers.keys());
+}
+
+/**
+ * Providers from EVIDENCE_PROVIDERS that are set up - online ones only when the analysis may use the internet
+ */
+export async function getActiveEvidenceProviders(useInternet: boolean): Promise<EvidenceProvider[]> {
+    const active: EvidenceProvider[] = [];
+    for (const name of config.evidence.providers) {
+        const provider = providers.get(name);
+        if (!provider) {
+            console.warn(`Unknown evidence provider in EVIDENCE_PROVIDERS: ${name}`);
+            continue;
+        }
+        if ((useInternet || !provider.online) && await provider.isConfigured()) {
+            active.push(provider);
+        }
+    }
+    return active;
+}
+
+/**
+ * Retrieve passages for each claim from all active providers
+ * A failing provider only loses its own passages; results keep the order of the claims
+ */
+export async function gatherEvidence(
+    claims: string[],
+    language: string,
+    useInternet: boolean,
+    onProgress?: (done: number, total: number) => void
+): Promise<EvidencePassage[][]> {
+    const active = await getActiveEvidenceProviders(useInternet);
+    if (active.length === 0 || claims.length === 0) {
+        return claims.map(() => []);
+    }
+
+    let done = 0;
+    const evidence = await mapWithConcurrency(claims, config.evidence.concurrency, async claim => {
+        const results = await Promise.allSettled(active.map(provider =>
+            provider.search({ claim, language, maxResults: config.evidence.maxPassagesPerClaim })
+        ));
+
+        const lists = results.map((result, index) => {
+            if (result.status === 'fulfilled') return result.value;
+            console.error(`Evidence provider ${active[index].name} failed:`, result.reason);
+            return [];
+        });
+
+        // Take turns between providers so one provider cannot fill every slot
+        const passages: EvidencePassage[] = [];
+        for (let rank = 0; rank < Math.max(0, ...lists.map(list => list.length)); rank++) {
+            lists.forEach(list => {
+                if (list[rank]) passages.push(list[rank]);
+            });
+        }
+
+        onProgress?.(++done, claims.length);
+        // The same page can come from several providers
+        const seen = new Set<string>();
+        return passages
+            .filter(passage => {
+                const key = passage.url || `${passage.title}|${passage.snippet}`;
+                if (seen.has(key)) return false;
+                seen.add(key);
+                return true;
+            })
+            .slice(0, config.evidence.maxPassagesPerClaim);
+    });
+
+    const total = evidence.reduce((sum, passages) => sum + passages.length, 0);
+    console.log(`Retrieved ${total} evidence passages for ${claims.length} claims from ${active.map(p => p.name).join(', ')}`);
+    return evidence;
+}
+
+// Built-in providers
+registerEvidenceProvider(wikipediaEvidence);
+registerEvidenceProvider(webSearchEvidence);
+registerEvidenceProvider(localEvidence);
@@ -1,14 +1,355 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import { GenerativeModel, GoogleGenerativeAI, ResponseSchema, SchemaType } from '@google/generative-ai';
 import { config } from '../config/config';
-import { Claim, ClaimStatus, FactCheckResult } from '../types';
-import { generateId } from '../utils/helpers';
+import { Claim, ClaimSource, ClaimStatus, EvidencePassage, EvidenceStance, FactCheckResult, MissingRange, OnScreenText, TimeRange, VideoMetadata } from '../types';
+import { deduplicateClaims, getWindowOnScreenText, splitIntoBatches, splitIntoWindows, TranscriptWindow } from '../utils/claimWindows';
+import { formatTimestamp, generateId, mapWithConcurrency } from '../utils/helpers';
+import { getLanguageName, isSameLanguage } from '../utils/language';
+import { parseTimestamp } from '../utils/transcript';
+import { gatherEvidence } from './evidenceService';
+import { verifySources } from './sourceVerificationService';
+import { generateStructured } from './structuredOutput';
+
+// What is known about the video besides its transcript
+export interface FactCheckContext {
+    metadata?: VideoMetadata;
+    missingRanges?: MissingRange[]; // parts of the audio that could not be transcribed
+    musicRanges?: TimeRange[];       // music or singing, marked [Music] in the transcript
+    onScreenText?: OnScreenText[];   // captions, charts and screenshots read from the video frames
+    useInternet?: boolean;           // evidence may come from online providers, not only local documents
+    transcriptLanguage?: string;     // language the transcript is in, when known
+}
+
+/**
+ * Describe who posted the video and when, so time-sensitive claims are judged as of the upload date
+ */
+function buildSourceContext(metadata?: VideoMetadata): string {
+    if (!metadata) return '';
+
+    const lines: string[] = [];
+    const postedBy = metadata.channel || metadata.uploader;
+    if (postedBy) lines.push(`- Posted by: ${postedBy}`);
+    if (metadata.uploadDate) lines.push(`- Upload date: ${metadata.uploadDate}`);
+    if (lines.length === 0) return '';
+
+    return `SOURCE CONTEXT:
+${lines.join('\n')}
+Judge time-sensitive claims (current office holders, statistics, "latest" records) as of the upload date.
+
+`;
+}
+
+/**
+ * Tell the model which parts of the audio are missing from the transcript
+ * so it does not treat a cut-off statement as the speaker's whole claim
+ */
+function buildMissingContext(missingRanges?: MissingRange[]): string {
+    if (!missingRanges || missingRanges.length === 0) return '';
+
+    const ranges = missingRanges.map(r => `- ${formatTimestamp(r.start)} to ${formatTimestamp(r.end)}`);
+    return `INCOMPLETE TRANSCRIPT - these parts of the audio could not be transcribed:
+${ranges.join('\n')}
+Do not extract claims that are cut off at these gaps, and do not judge a claim as false because context from a missing part is absent.
+
+`;
+}
+
+/**
+ * Tell the model where music plays, so song lyrics and background music are not taken as claims
+ */
+function buildMusicContext(musicRanges?: TimeRange[]): string {
+    if (!musicRanges || musicRanges.length === 0) return '';
+
+    const ranges = musicRanges.map(r => `- ${formatTimestamp(r.start)} to ${formatTimestamp(r.end)}`);
+    return `MUSIC - these parts are music or singing, not speech (shown as [Music] in the transcription):
+${ranges.join('\n')}
+Do not extract claims from these parts or from song lyrics.
+
+`;
+}
+
+/**
+ * Tell the model the transcript is in another language than the report, so claims are translated
+ * from what was actually said instead of being re-interpreted
+ */
+function buildLanguageContext(transcriptLanguage: string | undefined, responseLanguage: string): string {
+    if (!transcriptLanguage || isSameLanguage(transcriptLanguage, responseLanguage)) return '';
+
+    return `The transcription is in ${getLanguageName(transcriptLanguage)}. Translate each claim faithfully into ${getLanguageName(responseLanguage)}; keep names, numbers and quoted wording exact.
+
+`;
+}
+
+/**
+ * On-screen text as a second source next to the transcription, one "[MM:SS] text" line per text
+ */
+function buildOnScreenSection(onScreenText?: OnScreenText[]): string {
+    if (!onScreenText || onScreenText.length === 0) return '';
+
+    const lines = onScreenText.map(item => `[${formatTimestamp(item.start)}] ${item.text}`);
+    return `
+
+ON-SCREEN TEXT (read from the video frames - [MM:SS] is when it appears):
+${lines.join('\n')}`;
+}
+
+/**
+ * Frame of the on-screen text a claim came from: the text shown at the claim's timestamp, or the nearest one
+ */
+function findClaimFrame(timestamp: string | undefined, onScreenText: OnScreenText[]): number | undefined {
+    if (!timestamp || onScreenText.length === 0) return undefined;
+
+    const time = parseTimestamp(timestamp);
+    if (isNaN(time)) return undefined;
+
+    const showing = onScreenText.find(item => time >= item.start && time <= item.end);
+    if (showing) return showing.start;
+
+    return onScreenText.reduce((nearest, item) =>
+        Math.abs(item.start - time) < Math.abs(nearest.start - time) ? item : nearest
+    ).start;
+}
+
+// Characters of each evidence passage put into the verdict prompt
+const EVIDENCE_SNIPPET_CHARS = 600;
+
+const CLAIM_STATUSES: ClaimStatus[] = ['true', 'false', 'partially_true', 'unverifiable'];
+const CLAIM_SOURCES: ClaimSource[] = ['speech', 'on_screen'];
+const EVIDENCE_STANCES: EvidenceStance[] = ['supports', 'refutes', 'neutral'];
+
+// A claim as returned by the extraction step
+interface ExtractedClaim {
+    text: string;
+    timestamp?: string | null;
+    speaker?: string | null;
+    source?: ClaimSource | null;
+}
+
+// The verdict on one extracted claim
+interface ClaimVerdict {
+    claimIndex: number;
+    status: ClaimStatus;
+    score: number;
+    explanation: string;
+    wrongPart?: string | null;
+    correction?: string | null;
+    sources?: string[];
+    evidence?: Array<{ id: string; stance: EvidenceStance }>;
+}
+
+const EXTRACTION_SCHEMA: ResponseSchema = {
+    type: SchemaType.ARRAY,
+    items: {
+        type: SchemaType.OBJECT,
+        properties: {
+            text: { type: SchemaType.STRING, description: 'The factual claim' },
+            timestamp: { type: SchemaType.STRING, nullable: true, description: 'MM:SS where the claim is made, null if not available' },
+            speaker: { type: SchemaType.STRING, nullable: true, description: 'Speaker label or name as written in the transcription, null if speakers are not labeled' },
+            source: { type: SchemaType.STRING, format: 'enum', enum: CLAIM_SOURCES, nullable: true, description: 'Where the claim was found' },
+        },
+        required: ['text'],
+    },
+};
+
+const VERDICT_SCHEMA: ResponseSchema = {
+    type: SchemaType.ARRAY,
+    items: {
+        type: SchemaType.OBJECT,
+        properties: {
+            claimIndex: { type: SchemaType.INTEGER, description: 'Position of the claim in the list, starting at 0' },
+            status: { type: SchemaType.STRING, format: 'enum', enum: CLAIM_STATUSES },
+            score: { type: SchemaType.INTEGER, description: 'Accuracy score from 0 to 100' },
+            explanation: { type: SchemaType.STRING },
+            wrongPart: { type: SchemaType.STRING, nullable: true },
+            correction: { type: SchemaType.STRING, nullable: true },
+            sources: { type: SchemaType.ARRAY, items: { type: SchemaType.STRING } },
+            evidence: {
+                type: SchemaType.ARRAY,
+                items: {
+                    type: SchemaType.OBJECT,
+                    properties: {
+                        id: { type: SchemaType.STRING, description: 'Passage id, e.g. E0.1' },
+                        stance: { type: SchemaType.STRING, format: 'enum', enum: EVIDENCE_STANCES },
+                    },
+                    required: ['id', 'stance'],
+                },
+            },
+        },
+        required: ['claimIndex', 'status', 'score', 'explanation', 'sources'],
+    },
+};
+
+/**
+ * Extracted claims must have text - an empty claim cannot be verified
+ */
+function checkExtractedClaims(claims: ExtractedClaim[]): string[] {
+    return claims.flatMap((claim, index) => claim.text.trim() ? [] : [`$[${index}].text is empty`]);
+}
+
+/**
+ * Exactly one verdict per claim, with a score between 0 and 100
+ */
+function checkVerdicts(verdicts: ClaimVerdict[], claimCount: number): string[] {
+    const issues: string[] = [];
+    verdicts.forEach((verdict, index) => {
+        if (verdict.claimIndex < 0 || verdict.claimIndex >= claimCount) {
+            issues.push(`$[${index}].claimIndex ${verdict.claimIndex} is not a claim (0-${claimCount - 1})`);
+        }
+        if (verdict.score < 0 || verdict.score > 100) {
+            issues.push(`$[${index}].score must be between 0 and 100`);
+        }
+    });
+    for (let claimIndex = 0; claimIndex < claimCount; claimIndex++) {
+        const count = verdicts.filter(v => v.claimIndex === claimIndex).length;
+        if (count !== 1) issues.push(`claim ${claimIndex} has ${count} verdicts, expected exactly 1`);
+    }
+    return issues;
+}
+
+/**
+ * List the passages retrieved for each claim, with ids ("E0.1") the verdict can refer to
+ */
+function buildEvidenceSection(evidence: EvidencePassage[][]): string {
+    if (evidence.every(passages => passages.length === 0)) return '';
+
+    const blocks = evidence.map((passages, claimIndex) => {
+        if (passages.length === 0) return `Claim ${claimIndex}: no passages found`;
+
+        const lines = passages.map((passage, n) => {
+            const snippet = passage.snippet.length > EVIDENCE_SNIPPET_CHARS
+                ? `${passage.snippet.slice(0, EVIDENCE_SNIPPET_CHARS)}…`
+                : passage.snippet;
+            return `  [E${claimIndex}.${n + 1}] ${passage.title}${passage.url ? ` (${passage.url})` : ''}: ${snippet}`;
+        });
+        return `Claim ${claimIndex}:\n${lines.join('\n')}`;
+    });
+
+    return `
+
+RETRIEVED EVIDENCE (may be incomplete or off-topic - judge its relevance):
+${blocks.join('\n')}`;
+}
+
+/**
+ * Attach the stance the verdict gave each passage it used
+ */
+function withStances(passages: EvidencePassage[], claimIndex: number, used?: ClaimVerdict['evidence']): EvidencePassage[] {
+    return passages.map((passage, n) => {
+        const stance = used?.find(u => u.id === `E${claimIndex}.${n + 1}`)?.stance;
+        return stance ? { ...passage, stance } : passage;
+    });
+}
+
+// Shared by all extraction and verification requests of one analysis
+interface PromptContext {
+    languageName: string;
+    sourceContext: string;
+}
+
+/**
+ * Extract the claims of one transcript window
+ */
+async function extractWindowClaims(
+    model: GenerativeModel,
+    window: TranscriptWindow,
+    onScreenText: OnScreenText[],
+    part: { index: number; count: number },
+    prompt: PromptContext
+): Promise<ExtractedClaim[]> {
+    const { languageName, sourceContext } = prompt;
+    const onScreenSection = buildOnScreenSection(onScreenText);
+    const sourceInstruction = onScreenSection
+        ? `\n8. Also extract the factual claims made in the ON-SCREEN TEXT. Set "source" to "on_screen" for them (with the [MM:SS] of that text as timestamp) and to "speech" for claims from the transcription; a claim both said and shown is "speech"`
+        : '';
+    const partNote = part.count > 1
+        ? `\nThis is part ${part.index + 1} of ${part.count} of a longer transcription, overlapping the parts before and after it. Extract the claims made in this part; a statement cut off at its start or end is read whole in the neighbouring part.\n`
+        : '';
+
+    const extractionPrompt = `You are a fact-checking expert. Analyze the following transcription and extract all factual claims that can be verified.
+${partNote}
+${sourceContext}TRANSCRIPTION:
+${window.text}${onScreenSection}
+
+INSTRUCTIONS:
+1. Extract ONLY factual claims (statements that can be verified as true or false)
+2. Skip opinions, questions, and subjective statements
+3. Include the approximate timestamp if available
+4. If the transcription names speakers ("Speaker 1:", "Speaker 2:" or their names), record who says each claim exactly as written there
+5. A speaker who quotes or reports a claim only to debunk it does not make that claim - mention this in the claim text
+6. Return one entry per claim, with "timestamp" as MM:SS (null if not available) and "speaker" as the label or name (null if speakers are not labeled)
+7. IMPORTANT: Write ALL text in ${languageName}${sourceInstruction}`;
+
+    const claims = await generateStructured<ExtractedClaim[]>(model, {
+        label: part.count > 1 ? `claim extraction (part ${part.index + 1}/${part.count})` : 'claim extraction',
+        prompt: extractionPrompt,
+        schema: EXTRACTION_SCHEMA,
+        check: checkExtractedClaims,
+    });
+
+    // Claims can only be on screen when on-screen text was given
+    return claims.map(claim => ({ ...claim, source: claim.source === 'on_screen' && onScreenText.length > 0 ? 'on_screen' : 'speech' }));
+}
+
+/**
+ * Verify one batch of claims - verdicts come back in the order of the claims
+ */
+async function verifyClaimBatch(
+    model: GenerativeModel,
+    claims: ExtractedClaim[],
+    evidence: EvidencePassage[][],
+    prompt: PromptContext
+): Promise<ClaimVerdict[]> {
+    const { languageName, sourceContext } = prompt;
+    const evidenceSection = buildEvidenceSection(evidence);
+
+    const factCheckPrompt = `You are an expert fact-checker. Verify each claim and provide clear, helpful feedback.
+
+IMPORTANT: Write ALL your responses in ${languageName}.
+
+${sourceContext}CLAIMS TO VERIFY:
+${JSON.stringify(claims, null, 2)}${evidenceSection}
+
+For each claim, analyze and return:
+
+1. **status**: "true", "false", "partially_true", or "unverifiable"
+
+2. **score**: 0-100 accuracy score
+
+3. **explanation**: Simple, clear explanation in ${languageName}
+
+4. **wrongPart**: (ONLY if false/partially_true) Quote the EXACT part that is wrong
+
+5. **correction**: (ONLY if false/partially_true) The correct information in ${languageName}
+
+6. **sources**: (ONLY if false/partially_true) Provide 1-3 source URLs that prove the claim is wrong. Every link is checked and dead links are removed - only cite pages you are sure exist. Use trusted sources:
+   - Wikipedia (e.g., https://en.wikipedia.org/wiki/Topic)
+   - Reuters, BBC, AP News, official .gov sites
+   - For TRUE claims, leave sources as empty array []
+${evidenceSection ? `
+7. **evidence**: The retrieved passages you relied on, by id, each with its stance towards the claim: "supports", "refutes" or "neutral"
+   - Base the verdict on the retrieved evidence where it is relevant, and prefer its URLs as sources
+   - Use your own knowledge only where no relevant passage was found
+` : ''}
+Return exactly one verdict per claim, with "claimIndex" being the claim's position in the list above (starting at 0).`;
+
+    const verdicts = await generateStructured<ClaimVerdict[]>(model, {
+        label: 'claim verification',
+        prompt: factCheckPrompt,
+        schema: VERDICT_SCHEMA,
+        check: data => checkVerdicts(data, claims.length),
+    });
+
+    // Validation guarantees exactly one verdict per claim
+    return claims.map((_, index) => verdicts.find(verdict => verdict.claimIndex === index) as ClaimVerdict);
+}
 
 /**
  * Extract claims and fact-check them using Gemini AI
+ * Long transcripts are read in overlapping windows and the claims verified in batches, so no answer runs into the output limit
  */
 export async function factCheckTranscription(
     transcription: string,
     language: string = 'English',
+    context: FactCheckContext = {},
     onProgress?: (progress: number, message: string) => void
 ): Promise<FactCheckResult> {
     if (!config.geminiApiKey) {
@@ -22,51 +363,29 @@ export async function factCheckTranscription(
 
     // Get language name from config
     const languageInfo = config.supportedLanguages.find(l => l.code === language);
-    const languageName = languageInfo?.name || 'English';
-
-    // Step 1: Extract claims
-    const extractionPrompt = `You are a fact-checking expert. Analyze the following transcription and extract all factual claims that can be verified.
-
-TRANSCRIPTION:
-${transcription}
-
-INSTRUCTIONS:
-1. Extract ONLY factual claims (statements that can be verified as true or false)
-2. Skip opinions, questions, and subjective statements
-3. Include the approximate timestamp if available
-4. Return the claims in JSON format
-5. IMPORTANT: Write ALL text in ${languageName}
-
-Return a JSON array with this structure:
-[
-  {
-    "text": "The factual claim text in ${languageName}",
-    "timestamp": "MM:SS or null if not available"
-  }
-]
-
-Return ONLY the JSON array, no additional text:`;
+    const prompt: PromptContext = {
+        languageName: languageInfo?.name || 'English',
+        sourceContext: buildSourceContext(context.metadata) +
+            buildMissingContext(context.missingRanges) +
+            buildMusicContext(context.musicRanges) +
+            buildLanguageContext(context.transcriptLanguage, language),
+    };
+    const onScreenText = context.onScreenText || [];
+    const { windowChars, windowOverlapChars, concurrency } = config.factCheck;
+    const verifyBatchSize = Math.max(1, config.factCheck.verifyBatchSize);
 
     try {
-        const extractionResult = await model.generateContent(extractionPrompt);
-        const extractionText = extractionResult.response.text();
-
-        // Parse extracted claims
-        let extractedClaims: Array<{ text: string; timestamp?: string }> = [];
-
-        try {
-            // Clean up the response - remove markdown code blocks if present
-            let cleanJson = extractionText.trim();
-            if (cleanJson.startsWith('```json')) {
-                cleanJson = cleanJson.replace(/^```json\s*/, '').replace(/\s*```$/, '');
-            } else if (cleanJson.startsWith('```')) {
-                cleanJson = cleanJson.replace(/^```\s*/, '').replace(/\s*```$/, '');
+        // Step 1: Extract claims from each window, then merge those found in two overlapping windows
+        const windows = splitIntoWindows(transcription, windowChars, windowOverlapChars);
+        let extractedWindows = 0;
+        const windowClaims = await mapWithConcurrency(windows, concurrency, async (window, index) => {
+            const claims = await extractWindowClaims(model, window, getWindowOnScreenText(onScreenText, windows, index), { index, count: windows.length }, prompt);
+            if (windows.length > 1) {
+                onProgress?.(75 + Math.round(3 * ++extractedWindows / windows.length), `Extracting claims (part ${extractedWindows}/${windows.length})...`);
             }
-            extractedClaims = JSON.parse(cleanJson);
-        } catch {
-            // If parsing fails, create a single claim from the transcription
-            extractedClaims = [{ text: 'Unable to extract specific claims', timestamp: undefined }];
-        }
+            return claims;
+        });
+        const extractedClaims = deduplicateClaims(windowClaims.flat());
 
         if (extractedClaims.length === 0) {
             return {
@@ -82,106 +401,56 @@ Return ONLY the JSON array, no additional text:`;
             };
         }
 
-        onProgress?.(80, `Fact-checking ${extractedClaims.length} claims...`);
-
-        // Step 2: Fact-check each claim
-        const factCheckPrompt = `You are an expert fact-checker. Verify each claim and provide clear, helpful feedback.
-
-IMPORTANT: Write ALL your responses in ${languageName}.
-
-CLAIMS TO VERIFY:
-${JSON.stringify(extractedClaims, null, 2)}
-
-For each claim, analyze and return:
-
-1. **status**: "true", "false", "partially_true", or "unverifiable"
-
-2. **score**: 0-100 accuracy score
-
-3. **explanation**: Simple, clear explanation in ${languageName}
-
-4. **wrongPart**: (ONLY if false/partially_true) Quote the EXACT part that is wrong
-
-5. **correction**: (ONLY if false/partially_true) The correct information in ${languageName}
+        // Step 2: Retrieve evidence so verdicts do not rest on model memory alone
+        onProgress?.(78, 'Looking up evidence...');
+        const evidence = await gatherEvidence(extractedClaims.map(c => c.text), language, context.useInternet === true, (done, total) => {
+            onProgress?.(78, `Looking up evidence (${done}/${total} claims)...`);
+        });
 
-6. **sources**: (ONLY if false/partially_true) Provide 1-3 VERIFIED sources that prove the claim is wrong. Use trusted sources:
-   - Wikipedia (e.g., https://en.wikipedia.org/wiki/Topic)
-   - Reuters, BBC, AP News, official .gov sites
-   - For TRUE claims, leave sources as empty array []
+        onProgress?.(80, `Fact-checking ${extractedClaims.length} claims...`);
 
-Return JSON array:
-[
-  {
-    "claimIndex": 0,
-    "status": "true|false|partially_true|unverifiable",
-    "score": 85,
-    "explanation": "Explanation in ${languageName}",
-    "wrongPart": "The incorrect part" or null,
-    "correction": "Correct info in ${languageName}" or null,
-    "sources": ["https://verified-source.com"] // only for false/partially_true
-  }
-]
-
-Return ONLY valid JSON, no markdown:`;
-
-        const factCheckResult = await model.generateContent(factCheckPrompt);
-        const factCheckText = factCheckResult.response.text();
-
-        let factCheckData: Array<{
-            claimIndex: number;
-            status: string;
-            score: number;
-            explanation: string;
-            wrongPart?: string;
-            correction?: string;
-            sources?: string[];
-        }> = [];
-
-        try {
-            let cleanJson = factCheckText.trim();
-            if (cleanJson.startsWith('```json')) {
-                cleanJson = cleanJson.replace(/^```json\s*/, '').replace(/\s*```$/, '');
-            } else if (cleanJson.startsWith('```')) {
-                cleanJson = cleanJson.replace(/^```\s*/, '').replace(/\s*```$/, '');
+        // Step 3: Fact-check the claims in batches
+        const batches = splitIntoBatches(extractedClaims.length, verifyBatchSize);
+        let verifiedBatches = 0;
+        const batchVerdicts = await mapWithConcurrency(batches, concurrency, async indexes => {
+            const verdicts = await verifyClaimBatch(model, indexes.map(i => extractedClaims[i]), indexes.map(i => evidence[i]), prompt);
+            if (batches.length > 1) {
+                onProgress?.(80 + Math.round(8 * ++verifiedBatches / batches.length), `Fact-checking claims (batch ${verifiedBatches}/${batches.length})...`);
             }
-            factCheckData = JSON.parse(cleanJson);
-        } catch {
-            // If parsing fails, mark all as unverifiable
-            factCheckData = extractedClaims.map((_, index) => ({
-                claimIndex: index,
-                status: 'unverifiable',
-                score: 50,
-                explanation: 'Unable to verify this claim',
-                wrongPart: undefined,
-                correction: undefined,
-                sources: [],
-            }));
-        }
+            return verdicts;
+        });
+        const verdicts = batchVerdicts.flat();
+
+        // Cited links are checked: the model invents plausible-looking URLs
+        onProgress?.(88, 'Checking sources...');
+        const sourceLinks = await verifySources(verdicts.map(verdict =>
+            // Sources are empty for true claims (UI requirement)
+            verdict.status !== 'true' ? verdict.sources || [] : []
+        ));
 
         onProgress?.(90, 'Calculating final scores...');
 
         // Build final claims array
         const claims: Claim[] = extractedClaims.map((claim, index) => {
-            const checkResult = factCheckData.find(f => f.claimIndex === index) || {
-                status: 'unverifiable',
-                score: 50,
-                explanation: 'Unable to verify',
-                wrongPart: undefined,
-                correction: undefined,
-                sources: [],
-            };
+            const checkResult = verdicts[index];
+            const source: ClaimSource = claim.source === 'on_screen' ? 'on_screen' : 'speech';
+            // Evidence ids are numbered within the claim's batch
+            const batchIndex = index % verifyBatchSize;
 
             return {
                 id: generateId(),
                 text: claim.text,
-                timestamp: claim.timestamp,
-                status: checkResult.status as ClaimStatus,
+                timestamp: claim.timestamp || undefined,
+                speaker: source === 'speech' ? claim.speaker || undefined : undefined,
+                source,
+                frameTimestamp: source === 'on_screen' ? findClaimFrame(claim.timestamp || undefined, onScreenText) : undefined,
+                status: checkResult.status,
                 score: checkResult.score,
                 explanation: checkResult.explanation,
-                wrongPart: checkResult.wrongPart,
-                correction: checkResult.correction,
-                // Ensure sources are empty for true claims (UI requirement)
-                sources: checkResult.status === 'true' ? [] : (checkResult.sources || []),
+                wrongPart: checkResult.wrongPart || undefined,
+                correction: checkResult.correction || undefined,
+                sources: sourceLinks[index],
+                evidence: evidence[index].length > 0 ? withStances(evidence[index], batchIndex, checkResult.evidence) : undefined,
             };
         });
 
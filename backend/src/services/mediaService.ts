@@ -0,0 +1,264 @@
+import { execFile } from 'child_process';
+import fs from 'fs';
+import path from 'path';
+import { promisify } from 'util';
+import { config } from '../config/config';
+import { AudioStreamInfo, MediaProbeResult, SilenceRange, VideoFrame } from '../types';
+
+const execFileAsync = promisify(execFile);
+
+// Cancellation and time limit of a single ffmpeg/ffprobe run
+export interface MediaTaskOptions {
+    signal?: AbortSignal;
+    timeoutSeconds?: number; // defaults to FFMPEG_TIMEOUT_SECONDS
+}
+
+export interface TranscodeOptions extends MediaTaskOptions {
+    sampleRate?: number;  // Hz, e.g. 16000
+    channels?: number;    // 1 = mono
+    codec?: string;       // audio codec, e.g. 'pcm_s16le' or 'libmp3lame'
+    bitRate?: string;     // e.g. '32k', for lossy codecs
+    filters?: string[];   // audio filters, joined into one -af chain
+}
+
+export interface SilenceDetectOptions extends MediaTaskOptions {
+    noiseDb?: number;     // level counted as silence, e.g. -35
+    minSeconds?: number;  // shortest pause to report
+}
+
+export interface FrameExtractOptions extends MediaTaskOptions {
+    intervalSeconds: number;  // take a frame at least this often
+    sceneThreshold: number;   // 0-1, also take a frame at a scene change this strong
+    maxFrames: number;
+}
+
+// ffprobe -print_format json output, only the fields we read
+interface FfprobeOutput {
+    format?: { duration?: string; format_name?: string; size?: string; bit_rate?: string };
+    streams?: Array<{
+        codec_type?: string;
+        codec_name?: string;
+        sample_rate?: string;
+        channels?: number;
+        channel_layout?: string;
+        bit_rate?: string;
+    }>;
+}
+
+/**
+ * Resolve the path of ffmpeg or ffprobe
+ * FFMPEG_PATH may be a directory (bin folder of a static build) or the ffmpeg binary itself;
+ * .exe is only added on Windows
+ */
+export function resolveMediaBinary(name: 'ffmpeg' | 'ffprobe'): string {
+    const executable = process.platform === 'win32' ? `${name}.exe` : name;
+    if (!config.ffmpegPath) {
+        return executable;
+    }
+
+    const configured = path.resolve(config.ffmpegPath);
+    let isFile = false;
+    try {
+        isFile = fs.statSync(configured).isFile();
+    } catch {
+        // Missing path - let the spawn fail with a clear ENOENT
+    }
+
+    return path.join(isFile ? path.dirname(configured) : configured, executable);
+}
+
+/**
+ * Run ffmpeg/ffprobe without blocking the event loop
+ * Rejects with a readable error on timeout, cancellation or a non-zero exit
+ */
+async function runMediaTool(
+    name: 'ffmpeg' | 'ffprobe',
+    args: string[],
+    options: MediaTaskOptions = {}
+): Promise<{ stdout: string; stderr: string }> {
+    const timeoutSeconds = options.timeoutSeconds ?? config.ffmpegTimeoutSeconds;
+
+    try {
+        return await execFileAsync(resolveMediaBinary(name), args, {
+            signal: options.signal,
+            timeout: timeoutSeconds > 0 ? timeoutSeconds * 1000 : 0,
+            killSignal: 'SIGKILL',
+            maxBuffer: 64 * 1024 * 1024,
+            windowsHide: true,
+        });
+    } catch (err) {
+        const error = err as NodeJS.ErrnoException & { killed?: boolean; stderr?: string };
+        if (options.signal?.aborted || error.name === 'AbortError') {
+            throw new Error(`${name} was cancelled`);
+        }
+        if (error.killed) {
+            throw new Error(`${name} timed out after ${timeoutSeconds}s`);
+        }
+        if (error.code === 'ENOENT') {
+            throw new Error(`${name} not found at ${resolveMediaBinary(name)} - install FFmpeg or set FFMPEG_PATH`);
+        }
+        // The last stderr line is usually the actual reason
+        const reason = error.stderr?.trim().split('\n').pop();
+        throw new Error(`${name} failed: ${reason || error.message}`);
+    }
+}
+
+function toNumber(value: string | undefined): number | undefined {
+    const parsed = value === undefined ? NaN : parseFloat(value);
+    return isNaN(parsed) ? undefined : parsed;
+}
+
+/**
+ * Read duration, container, codec, sample rate and channel layout of a media file
+ */
+export async function probeMedia(filePath: string, options?: MediaTaskOptions): Promise<MediaProbeResult> {
+    const { stdout } = await runMediaTool('ffprobe', [
+        '-v', 'error',
+        '-print_format', 'json',
+        '-show_format',
+        '-show_streams',
+        filePath,
+    ], options);
+
+    const output = JSON.parse(stdout) as FfprobeOutput;
+    const audioStream = output.streams?.find(s => s.codec_type === 'audio');
+    const videoStream = output.streams?.find(s => s.codec_type === 'video');
+
+    const audio: AudioStreamInfo | undefined = audioStream && {
+        codec: audioStream.codec_name || 'unknown',
+        sampleRate: toNumber(audioStream.sample_rate),
+        channels: audioStream.channels,
+        channelLayout: audioStream.channel_layout,
+        bitRate: toNumber(audioStream.bit_rate),
+    };
+
+    return {
+        duration: toNumber(output.format?.duration) || 0,
+        formatName: output.format?.format_name || 'unknown',
+        sizeBytes: toNumber(output.format?.size),
+        bitRate: toNumber(output.format?.bit_rate),
+        audio,
+        videoCodec: videoStream?.codec_name,
+    };
+}
+
+/**
+ * Re-encode the audio of a file (video is dropped) - resample, downmix and filter in one pass
+ */
+export async function transcodeAudio(inputPath: string, outputPath: string, options: TranscodeOptions = {}): Promise<void> {
+    const args = ['-hide_banner', '-nostdin', '-y', '-i', inputPath, '-vn'];
+    if (options.filters?.length) args.push('-af', options.filters.join(','));
+    if (options.sampleRate) args.push('-ar', String(options.sampleRate));
+    if (options.channels) args.push('-ac', String(options.channels));
+    if (options.codec) args.push('-c:a', options.codec);
+    if (options.bitRate) args.push('-b:a', options.bitRate);
+    args.push(outputPath);
+
+    await runMediaTool('ffmpeg', args, options);
+}
+
+/**
+ * Cut [start, end) out of a file without re-encoding - used to split long audio into chunks
+ */
+export async function cutSegment(
+    inputPath: string,
+    outputPath: string,
+    start: number,
+    end: number,
+    options?: MediaTaskOptions
+): Promise<void> {
+    await runMediaTool('ffmpeg', [
+        '-hide_banner', '-nostdin', '-y',
+        '-i', inputPath,
+        '-ss', start.toFixed(3),
+        '-t', (end - start).toFixed(3),
+        '-vn',
+        '-c', 'copy',
+        outputPath,
+    ], options);
+
+    if (!fs.existsSync(outputPath)) {
+        throw new Error(`ffmpeg did not create ${path.basename(outputPath)}`);
+    }
+}
+
+/**
+ * Copy the audio stream out of a video container without re-encoding
+ */
+export async function extractAudio(inputPath: string, outputPath: string, options?: MediaTaskOptions): Promise<void> {
+    await runMediaTool('ffmpeg', ['-hide_banner', '-nostdin', '-y', '-i', inputPath, '-vn', '-c:a', 'copy', outputPath], options);
+}
+
+/**
+ * Find pauses with the silencedetect filter
+ */
+export async function detectSilences(inputPath: string, options: SilenceDetectOptions = {}): Promise<SilenceRange[]> {
+    const noiseDb = options.noiseDb ?? -35;
+    const minSeconds = options.minSeconds ?? 0.4;
+
+    // silencedetect logs to stderr
+    const { stderr } = await runMediaTool('ffmpeg', [
+        '-hide_banner', '-nostdin', '-nostats',
+        '-i', inputPath,
+        '-vn',
+        '-af', `silencedetect=noise=${noiseDb}dB:d=${minSeconds}`,
+        '-f', 'null', '-',
+    ], options);
+
+    const silences: SilenceRange[] = [];
+    let start: number | undefined;
+    for (const match of stderr.matchAll(/silence_(start|end): (-?[\d.]+)/g)) {
+        if (match[1] === 'start') {
+            start = Math.max(0, parseFloat(match[2]));
+        } else if (start !== undefined) {
+            silences.push({ start, end: parseFloat(match[2]) });
+            start = undefined;
+        }
+    }
+    return silences;
+}
+
+/**
+ * Save stills of a video as JPEGs: the first frame, one per interval and one at each scene change
+ * Frames are scaled down to 1280px wide at most; timestamps come from the showinfo filter
+ */
+export async function extractFrames(videoPath: string, outputDir: string, options: FrameExtractOptions): Promise<VideoFrame[]> {
+    fs.mkdirSync(outputDir, { recursive: true });
+
+    // Scene changes closer than a second apart (fast cuts) only count once
+    const selection = `isnan(prev_selected_t)+gte(t-prev_selected_t,${options.intervalSeconds})` +
+        `+gt(scene,${options.sceneThreshold})*gte(t-prev_selected_t,1)`;
+
+    const { stderr } = await runMediaTool('ffmpeg', [
+        '-hide_banner', '-nostdin', '-y',
+        '-i', videoPath,
+        '-an',
+        '-vf', `select='${selection}',scale='min(1280,iw)':-2,showinfo`,
+        // -fps_mode replaces this from FFmpeg 5.1 on, -vsync still works there and on older builds
+        '-vsync', 'vfr',
+        '-frames:v', String(options.maxFrames),
+        '-q:v', '3',
+        path.join(outputDir, 'frame_%04d.jpg'),
+    ], options);
+
+    const timestamps = Array.from(stderr.matchAll(/pts_time:\s*(-?[\d.]+)/g), match => parseFloat(match[1]));
+    const files = fs.readdirSync(outputDir).filter(f => /^frame_\d+\.jpg$/.test(f)).sort();
+
+    return files.map((file, index) => ({
+        path: path.join(outputDir, file),
+        timestamp: Math.max(0, timestamps[index] ?? 0),
+    }));
+}
+
+/**
+ * Check that ffmpeg and ffprobe run
+ */
+export async function checkFfmpegInstalled(): Promise<boolean> {
+    try {
+        await runMediaTool('ffmpeg', ['-version'], { timeoutSeconds: 10 });
+        await runMediaTool('ffprobe', ['-version'], { timeoutSeconds: 10 });
+        return true;
+    } catch {
+        return false;
+    }
+}
@@ -0,0 +1,77 @@
+import { config } from '../config/config';
+import { PlatformDefinition } from '../types';
+import { ytdlpDownloader } from './downloaders/ytdlpDownloader';
+import { directDownloader, isDirectMediaUrl } from './downloaders/directDownloader';
+import { localFileDownloader } from './downloaders/localFileDownloader';
+
+// Registered platforms, checked in registration order
+const platforms: PlatformDefinition[] = [];
+
+/**
+ * Register a platform (replaces an existing entry with the same id)
+ */
+export function registerPlatform(platform: PlatformDefinition): void {
+    const index = platforms.findIndex(p => p.id === platform.id);
+    if (index >= 0) {
+        platforms[index] = platform;
+    } else {
+        platforms.push(platform);
+    }
+}
+
+/**
+ * Get all registered platforms
+ */
+export function getRegisteredPlatforms(): PlatformDefinition[] {
+    return [...platforms];
+}
+
+/**
+ * Check if a hostname belongs to one of the domains (subdomains included)
+ */
+function matchesDomain(url: URL, domains: string[]): boolean {
+    const hostname = url.hostname.toLowerCase();
+    return domains.some(domain => hostname === domain || hostname.endsWith(`.${domain}`));
+}
+
+/**
+ * Find the platform that handles a URL
+ */
+export function findPlatform(url: string): PlatformDefinition | undefined {
+    let urlObj: URL;
+    try {
+        urlObj = new URL(url);
+    } catch {
+        return undefined;
+    }
+
+    return platforms.find(platform =>
+        platform.matches ? platform.matches(urlObj) : matchesDomain(urlObj, platform.domains)
+    );
+}
+
+// Built-in platforms
+registerPlatform({ id: 'youtube', name: 'YouTube', domains: ['youtube.com', 'youtu.be'], downloader: ytdlpDownloader });
+registerPlatform({ id: 'facebook', name: 'Facebook', domains: ['facebook.com', 'fb.watch'], downloader: ytdlpDownloader });
+registerPlatform({ id: 'instagram', name: 'Instagram', domains: ['instagram.com'], downloader: ytdlpDownloader });
+registerPlatform({ id: 'twitter', name: 'Twitter/X', domains: ['twitter.com', 'x.com'], downloader: ytdlpDownloader });
+registerPlatform({ id: 'tiktok', name: 'TikTok', domains: ['tiktok.com'], downloader: ytdlpDownloader });
+
+// Plain .mp4/.mp3/... links on any host
+registerPlatform({
+    id: 'direct',
+    name: 'Direct media URL',
+    domains: [],
+    matches: isDirectMediaUrl,
+    downloader: directDownloader,
+});
+
+if (config.allowLocalFiles) {
+    registerPlatform({
+        id: 'file',
+        name: 'Local file',
+        domains: [],
+        matches: url => url.protocol === 'file:',
+        downloader: localFileDownloader,
+    });
+}
@@ -0,0 +1,118 @@
+import fs from 'fs';
+import { config } from '../config/config';
+import { MediaInfo, PreflightErrorCode, PreflightLimits } from '../types';
+import { formatDuration } from '../utils/helpers';
+import { probeMedia } from './mediaService';
+
+/**
+ * Raised when a video fails a preflight check - carries a code clients can act on
+ */
+export class PreflightError extends Error {
+    readonly code: PreflightErrorCode;
+
+    constructor(code: PreflightErrorCode, message: string) {
+        super(message);
+        this.name = 'PreflightError';
+        this.code = code;
+    }
+}
+
+/**
+ * Validate per-request limit overrides and merge them over the configured limits
+ * Throws on unknown keys or wrong types so typos don't silently fall back to defaults
+ */
+export function resolveLimits(overrides?: unknown): PreflightLimits {
+    if (overrides === undefined || overrides === null) {
+        return { ...config.limits };
+    }
+    if (typeof overrides !== 'object' || Array.isArray(overrides)) {
+        throw new Error('limits must be an object');
+    }
+
+    const limits: PreflightLimits = { ...config.limits };
+
+    for (const [key, value] of Object.entries(overrides as Record<string, unknown>)) {
+        switch (key) {
+            case 'maxDurationSeconds':
+            case 'maxFilesizeMB':
+                if (typeof value !== 'number' || !isFinite(value) || value < 0) {
+                    throw new Error(`limits.${key} must be a non-negative number`);
+                }
+                limits[key] = value;
+                break;
+            case 'allowLive':
+            case 'allowAgeRestricted':
+                if (typeof value !== 'boolean') {
+                    throw new Error(`limits.${key} must be a boolean`);
+                }
+                limits[key] = value;
+                break;
+            default:
+                throw new Error(`Unknown limit: ${key}`);
+        }
+    }
+
+    return limits;
+}
+
+/**
+ * Check media info against the limits before anything is downloaded
+ */
+export function checkPreflightLimits(info: MediaInfo, limits: PreflightLimits): void {
+    if (info.isLive && !limits.allowLive) {
+        throw new PreflightError('LIVE_STREAM_NOT_ALLOWED', 'Live streams are not supported. Try again once the stream has ended.');
+    }
+
+    if (info.ageRestricted && !limits.allowAgeRestricted) {
+        throw new PreflightError('AGE_RESTRICTED', 'This video is age-restricted and cannot be processed.');
+    }
+
+    checkDurationLimit(info.duration, limits);
+    if (info.filesizeBytes !== undefined) {
+        checkFilesizeLimit(info.filesizeBytes, limits);
+    }
+}
+
+/**
+ * Reject media longer than the duration limit
+ */
+export function checkDurationLimit(durationSeconds: number, limits: PreflightLimits): void {
+    if (limits.maxDurationSeconds > 0 && durationSeconds > limits.maxDurationSeconds) {
+        throw new PreflightError(
+            'DURATION_LIMIT_EXCEEDED',
+            `Video is too long (${formatDuration(durationSeconds)}). Maximum duration is ${formatDuration(limits.maxDurationSeconds)}.`
+        );
+    }
+}
+
+/**
+ * Reject media larger than the file size limit - also called while a download is still streaming
+ */
+export function checkFilesizeLimit(filesizeBytes: number, limits: PreflightLimits): void {
+    const maxBytes = limits.maxFilesizeMB * 1024 * 1024;
+    if (limits.maxFilesizeMB > 0 && filesizeBytes > maxBytes) {
+        const sizeMB = (filesizeBytes / (1024 * 1024)).toFixed(1);
+        throw new PreflightError(
+            'FILESIZE_LIMIT_EXCEEDED',
+            `Media is too large (${sizeMB} MB). Maximum size is ${limits.maxFilesizeMB} MB.`
+        );
+    }
+}
+
+/**
+ * Check a downloaded or uploaded file against the limits - direct links, local files and uploads
+ * have no duration until FFprobe reads the file. Returns the duration, 0 when FFprobe cannot read it
+ */
+export async function checkMediaFileLimits(filePath: string, limits: PreflightLimits): Promise<number> {
+    checkFilesizeLimit(fs.statSync(filePath).size, limits);
+
+    let duration = 0;
+    try {
+        ({ duration } = await probeMedia(filePath));
+    } catch (err) {
+        // Same as the later stages: an unreadable file is left to normalization and transcription to report
+        console.warn('Could not read media duration for the limit check:', err);
+    }
+    checkDurationLimit(duration, limits);
+    return duration;
+}
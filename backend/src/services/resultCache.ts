@@ -0,0 +1,96 @@
+import { config } from '../config/config';
+import { CachedResult } from '../types';
+import { canonicalizeUrl } from '../utils/canonicalUrl';
+
+// Results keyed by "<identity>|<spoken language>|<response language>" - Map order doubles as insertion order for eviction
+const results: Map<string, CachedResult> = new Map();
+
+// Canonical URL -> video identity, so known URLs skip the probe
+const urlIdentities: Map<string, string> = new Map();
+
+/**
+ * Build the lookup key for a submitted URL (multi-video posts add the entry index)
+ */
+function urlKey(url: string, playlistIndex?: number): string {
+    const canonical = canonicalizeUrl(url);
+    return playlistIndex ? `${canonical}#${playlistIndex}` : canonical;
+}
+
+function resultKey(identity: string, spokenLanguage: string, language: string): string {
+    return `${identity}|${spokenLanguage}|${language}`;
+}
+
+function isExpired(entry: CachedResult): boolean {
+    const ttlMs = config.cache.ttlHours * 60 * 60 * 1000;
+    return ttlMs > 0 && Date.now() - entry.cachedAt.getTime() > ttlMs;
+}
+
+/**
+ * Remember which video a URL resolved to
+ */
+export function rememberUrl(url: string, identity: string, playlistIndex?: number): void {
+    if (!config.cache.enabled) return;
+    urlIdentities.set(urlKey(url, playlistIndex), identity);
+}
+
+/**
+ * Get the identity a URL resolved to before, if any
+ */
+export function findIdentityForUrl(url: string, playlistIndex?: number): string | undefined {
+    return urlIdentities.get(urlKey(url, playlistIndex));
+}
+
+/**
+ * The stored entry itself - only for updating it in place
+ */
+function findEntry(identity: string, spokenLanguage: string, language: string): CachedResult | undefined {
+    if (!config.cache.enabled) return undefined;
+
+    const key = resultKey(identity, spokenLanguage, language);
+    const entry = results.get(key);
+    if (entry && isExpired(entry)) {
+        results.delete(key);
+        return undefined;
+    }
+    return entry;
+}
+
+/**
+ * Get a cached result for a video identity, requested spoken language and response language
+ * Returns a copy: jobs rename speakers and edit transcripts in place, which must not change the cache or other jobs
+ */
+export function getCachedResult(identity: string, spokenLanguage: string, language: string): CachedResult | undefined {
+    const entry = findEntry(identity, spokenLanguage, language);
+    return entry && structuredClone(entry);
+}
+
+/**
+ * Store a finished transcription - replaces any earlier result, including its analysis
+ */
+export function cacheTranscription(entry: Omit<CachedResult, 'cachedAt' | 'analysis'>): void {
+    if (!config.cache.enabled) return;
+
+    const key = resultKey(entry.key, entry.spokenLanguage, entry.language);
+    results.delete(key);
+    results.set(key, { ...structuredClone(entry), cachedAt: new Date() });
+
+    while (results.size > config.cache.maxEntries) {
+        const oldest = results.keys().next().value as string;
+        results.delete(oldest);
+    }
+}
+
+/**
+ * Attach the latest analysis to a cached transcription
+ */
+export function cacheAnalysis(
+    identity: string,
+    spokenLanguage: string,
+    language: string,
+    analysis: NonNullable<CachedResult['analysis']>
+): void {
+    const entry = findEntry(identity, spokenLanguage, language);
+    if (entry) {
+        entry.analysis = structuredClone(analysis);
+    }
+}
@@ -0,0 +1,100 @@
+import { config } from '../../config/config';
+import { FetchedSource, SourceFetcher } from '../../types';
+import { safeFetch, UnsafeUrlError } from '../../utils/safeFetch';
+
+// Some sites refuse requests without a browser-like user agent
+const USER_AGENT = 'Mozilla/5.0 (compatible; video-fact-checker/1.0; source verification)';
+
+// Only the start of a page is read - the <title> is in the <head>
+const MAX_HTML_BYTES = 64 * 1024;
+
+// Statuses that mean the page does not exist, rather than that we may not see it
+const NOT_FOUND_STATUSES = [404, 410];
+
+// The domain does not exist - EAI_AGAIN (DNS unreachable) is not counted, an offline server would drop every link
+const NOT_FOUND_ERRORS = ['ENOTFOUND'];
+
+const HTML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+function decodeEntities(text: string): string {
+    return text.replace(/&(#x?[\da-f]+|\w+);/gi, (entity, code: string) => {
+        if (code.startsWith('#')) {
+            const value = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+            return isNaN(value) ? entity : String.fromCodePoint(value);
+        }
+        return HTML_ENTITIES[code.toLowerCase()] ?? entity;
+    });
+}
+
+/**
+ * Read the <title> from the start of an HTML response, then stop downloading
+ */
+async function readTitle(response: Response): Promise<string | undefined> {
+    if (!response.body || !(response.headers.get('content-type') || '').includes('html')) {
+        await response.body?.cancel();
+        return undefined;
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let html = '';
+    try {
+        while (html.length < MAX_HTML_BYTES) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            html += decoder.decode(value, { stream: true });
+            if (/<\/title>/i.test(html)) break;
+        }
+    } finally {
+        await reader.cancel().catch(() => undefined);
+    }
+
+    const match = /<title[^>]*>([\s\S]*?)<\/title>/i.exec(html);
+    const title = match && decodeEntities(match[1]).replace(/\s+/g, ' ').trim();
+    return title || undefined;
+}
+
+/**
+ * Request the page, following redirects
+ * Cited URLs come from the model and can be steered by text in the video, so private and local hosts are never requested
+ */
+async function fetchSource(url: URL): Promise<FetchedSource> {
+    let response: Response;
+    try {
+        response = await safeFetch(url, {
+            headers: { 'User-Agent': USER_AGENT, Accept: 'text/html,application/xhtml+xml,*/*;q=0.8' },
+            signal: AbortSignal.timeout(config.sourceVerification.timeoutSeconds * 1000),
+        });
+    } catch (err) {
+        // Not a public web page - dropped like a dead link, and nothing about it is reported
+        if (err instanceof UnsafeUrlError) return { status: 'not_found' };
+
+        // DNS lookups fail with the code on the error, fetch puts it on the cause
+        const error = err as NodeJS.ErrnoException & { cause?: { code?: string } };
+        const code = error.code ?? error.cause?.code;
+        return { status: code && NOT_FOUND_ERRORS.includes(code) ? 'not_found' : 'unreachable' };
+    }
+
+    if (NOT_FOUND_STATUSES.includes(response.status)) {
+        await response.body?.cancel();
+        return { status: 'not_found' };
+    }
+    if (!response.ok) {
+        // 403, 429, 5xx: blocked or down, which says nothing about whether the page exists
+        await response.body?.cancel();
+        return { status: 'unreachable' };
+    }
+
+    const title = await readTitle(response).catch(() => undefined);
+    return { status: 'ok', url: response.url || url.href, title };
+}
+
+function handles(url: URL): boolean {
+    return url.protocol === 'http:' || url.protocol === 'https:';
+}
+
+export const httpSourceFetcher: SourceFetcher = {
+    name: 'http',
+    handles,
+    fetch: fetchSource,
+};
@@ -0,0 +1,125 @@
+import { config } from '../config/config';
+import { FetchedSource, SourceFetcher, SourceLink, SourceTier } from '../types';
+import { mapWithConcurrency } from '../utils/helpers';
+import { httpSourceFetcher } from './sourceFetchers/httpSourceFetcher';
+import { wikipediaSourceFetcher } from './sourceFetchers/wikipediaSourceFetcher';
+
+// Registered source fetchers by name
+const fetchers: Map<string, SourceFetcher> = new Map();
+
+/**
+ * Register a source fetcher (replaces an existing one with the same name)
+ */
+export function registerSourceFetcher(fetcher: SourceFetcher): void {
+    fetchers.set(fetcher.name, fetcher);
+}
+
+/**
+ * Get the names of all registered fetchers
+ */
+export function getSourceFetcherNames(): string[] {
+    return Array.from(fetchers.keys());
+}
+
+/**
+ * The first fetcher in SOURCE_FETCHERS that handles the URL
+ */
+function findFetcher(url: URL): SourceFetcher | undefined {
+    for (const name of config.sourceVerification.fetchers) {
+        const fetcher = fetchers.get(name);
+        if (!fetcher) {
+            console.warn(`Unknown source fetcher in SOURCE_FETCHERS: ${name}`);
+            continue;
+        }
+        if (fetcher.handles(url)) return fetcher;
+    }
+    return undefined;
+}
+
+/**
+ * Host of a URL without "www."
+ */
+function getDomain(url: URL): string {
+    return url.hostname.toLowerCase().replace(/^www\./, '');
+}
+
+function matchesDomain(domain: string, entry: string): boolean {
+    return domain === entry || domain.endsWith(`.${entry}`);
+}
+
+/**
+ * Credibility tier of a domain - the most specific listed entry wins, so a low-tier blog host
+ * can still list a trusted subdomain
+ */
+export function getSourceTier(domain: string): SourceTier {
+    const longest = (entries: string[]) => Math.max(0, ...entries.filter(entry => matchesDomain(domain, entry)).map(entry => entry.length));
+    const trusted = longest(config.sourceVerification.trustedDomains);
+    const low = longest(config.sourceVerification.lowDomains);
+
+    if (trusted === 0 && low === 0) return 'neutral';
+    return trusted >= low ? 'trusted' : 'low';
+}
+
+/**
+ * Parse a cited source - models sometimes leave out the scheme or wrap the URL in text
+ */
+function parseSourceUrl(source: string): URL | undefined {
+    const candidate = /https?:\/\/\S+/i.exec(source)?.[0] ?? (/^[\w-]+(\.[\w-]+)+\/\S*$/.test(source.trim()) ? `https://${source.trim()}` : undefined);
+    if (!candidate) return undefined;
+    try {
+        return new URL(candidate.replace(/[).,;\]]+$/, ''));
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Look up every URL cited for the claims, keeping the order of the claims
+ * Dead or made-up links are dropped (or kept unverified with KEEP_DEAD_SOURCES), text that is not a URL is dropped,
+ * and each remaining link gets its domain's credibility tier
+ */
+export async function verifySources(sourceLists: string[][]): Promise<SourceLink[][]> {
+    const parsed = sourceLists.map(sources => sources
+        .map(source => parseSourceUrl(source))
+        .filter((url): url is URL => !!url));
+
+    // The same URL is often cited for several claims - look it up once
+    const unique = [...new Set(parsed.flat().map(url => url.href))];
+    const results = new Map<string, FetchedSource | undefined>();
+    await mapWithConcurrency(unique, config.sourceVerification.concurrency, async href => {
+        const url = new URL(href);
+        const fetcher = findFetcher(url);
+        results.set(href, fetcher ? await fetcher.fetch(url).catch(() => ({ status: 'unreachable' as const })) : undefined);
+    });
+
+    const verified = parsed.map(urls => {
+        const links: SourceLink[] = [];
+        for (const url of urls) {
+            const result = results.get(url.href);
+            if (result?.status === 'not_found' && !config.sourceVerification.keepDeadLinks) continue;
+
+            const finalUrl = result?.url ? new URL(result.url) : url;
+            if (links.some(link => link.url === finalUrl.href)) continue;
+
+            const domain = getDomain(finalUrl);
+            links.push({
+                url: finalUrl.href,
+                title: result?.title,
+                domain,
+                tier: getSourceTier(domain),
+                verified: result?.status === 'ok',
+            });
+        }
+        return links;
+    });
+
+    if (unique.length > 0) {
+        const dead = [...results.values()].filter(result => result?.status === 'not_found').length;
+        console.log(`Checked ${unique.length} source links: ${dead} dead or made up`);
+    }
+    return verified;
+}
+
+// Built-in fetchers
+registerSourceFetcher(wikipediaSourceFetcher);
+registerSourceFetcher(httpSourceFetcher);
@@ -0,0 +1,140 @@
+import path from 'path';
+import { config } from '../config/config';
+import { SilenceRange, SpeechAudio, TimeRange, TranscriptionProgressCallback, TranscriptionResult } from '../types';
+import { segmentsToText } from '../utils/transcript';
+import { detectSilences, probeMedia, transcodeAudio } from './mediaService';
+
+// Audio kept on each side of a speech region so first and last syllables are not clipped
+const SPEECH_PADDING_SECONDS = 0.25;
+
+// Only cut when at least this share of the audio is silence - smaller savings are not worth re-encoding
+const MIN_SKIPPED_RATIO = 0.1;
+
+/**
+ * Speech regions between the silences - padded, clamped to the audio and merged where the padding overlaps
+ */
+function toSpeechRegions(silences: SilenceRange[], duration: number): TimeRange[] {
+    const regions: TimeRange[] = [];
+    const addRegion = (from: number, to: number) => {
+        if (to <= from) return;
+        const start = Math.max(0, from - SPEECH_PADDING_SECONDS);
+        const end = Math.min(duration, to + SPEECH_PADDING_SECONDS);
+        const previous = regions[regions.length - 1];
+        if (previous && start <= previous.end) {
+            previous.end = Math.max(previous.end, end);
+        } else {
+            regions.push({ start, end });
+        }
+    };
+
+    let cursor = 0;
+    for (const silence of [...silences].sort((a, b) => a.start - b.start)) {
+        addRegion(cursor, silence.start);
+        cursor = Math.max(cursor, silence.end);
+    }
+    addRegion(cursor, duration);
+
+    return regions;
+}
+
+/**
+ * Parts of the audio outside the speech regions
+ */
+function toSkippedRanges(regions: TimeRange[], duration: number): SilenceRange[] {
+    const skipped: SilenceRange[] = [];
+    let cursor = 0;
+    for (const region of regions) {
+        if (region.start > cursor) skipped.push({ start: cursor, end: region.start });
+        cursor = region.end;
+    }
+    if (duration > cursor) skipped.push({ start: cursor, end: duration });
+    return skipped;
+}
+
+/**
+ * Cut silence out of the audio before transcription
+ * Returns null when detection is disabled, fails, or finds too little silence - the original audio is then used as is
+ */
+export async function prepareSpeechAudio(
+    audioPath: string,
+    onProgress?: TranscriptionProgressCallback,
+    signal?: AbortSignal
+): Promise<SpeechAudio | null> {
+    if (!config.speechDetection.enabled) return null;
+
+    try {
+        onProgress?.(45, 'Detecting speech...');
+        const { duration } = await probeMedia(audioPath, { signal });
+        if (duration <= 0) return null;
+
+        const silences = await detectSilences(audioPath, {
+            noiseDb: config.speechDetection.noiseDb,
+            minSeconds: config.speechDetection.minSilenceSeconds,
+            signal,
+        });
+        const regions = toSpeechRegions(silences, duration);
+        const skipped = toSkippedRanges(regions, duration);
+        const skippedSeconds = skipped.reduce((total, range) => total + range.end - range.start, 0);
+
+        // Nothing above the noise floor - let the transcriber decide what is there
+        if (regions.length === 0 || skippedSeconds < duration * MIN_SKIPPED_RATIO) {
+            return null;
+        }
+
+        // Same codec and bitrate as normalized audio - the speech-only file must be smaller than the full one
+        const speechPath = path.join(path.dirname(audioPath), `${path.basename(audioPath, path.extname(audioPath))}_speech.mp3`);
+        const selection = regions.map(r => `between(t,${r.start.toFixed(3)},${r.end.toFixed(3)})`).join('+');
+        await transcodeAudio(audioPath, speechPath, {
+            filters: [`aselect='${selection}'`, 'asetpts=N/SR/TB'],
+            channels: 1,
+            codec: 'libmp3lame',
+            bitRate: `${config.audioNormalization.bitrateKbps}k`,
+            signal,
+        });
+
+        console.log(`Skipping ${skippedSeconds.toFixed(1)}s of silence in ${skipped.length} part(s) of ${duration.toFixed(1)}s audio`);
+        onProgress?.(47, `Skipped ${Math.round(skippedSeconds)}s of silence, transcribing ${Math.round(duration - skippedSeconds)}s of speech...`);
+        return { audioPath: speechPath, regions, skipped, duration };
+    } catch (err) {
+        console.error('Speech detection failed, transcribing the full audio:', err);
+        return null;
+    }
+}
+
+/**
+ * Map a time in the speech-only audio back to the original audio
+ * A time exactly at a join belongs to the next region when it starts something and to the previous one when it ends it
+ */
+function toOriginalTime(time: number, regions: TimeRange[], isEnd: boolean): number {
+    let offset = 0;
+    for (const region of regions) {
+        const length = region.end - region.start;
+        if (time < offset + length || (isEnd && time === offset + length)) {
+            return region.start + Math.max(0, time - offset);
+        }
+        offset += length;
+    }
+    return regions.length > 0 ? regions[regions.length - 1].end : time;
+}
+
+/**
+ * Move a transcription of the speech-only audio back onto the original timeline
+ */
+export function restoreTimeline(result: TranscriptionResult, speech: SpeechAudio): TranscriptionResult {
+    const segments = result.segments.map(segment => ({
+        ...segment,
+        start: toOriginalTime(segment.start, speech.regions, false),
+        end: toOriginalTime(segment.end, speech.regions, true),
+    }));
+
+    return {
+        ...result,
+        transcription: segmentsToText(segments),
+        segments,
+        missingRanges: result.missingRanges?.map(range => ({
+            ...range,
+            start: toOriginalTime(range.start, speech.regions, false),
+            end: toOriginalTime(range.end, speech.regions, true),
+        })),
+    };
+}
@@ -0,0 +1,73 @@
+import { Schema, SchemaType } from '@google/generative-ai';
+import { describe, expect, it } from 'vitest';
+import { validateSchema } from './structuredOutput';
+
+const claimSchema: Schema = {
+    type: SchemaType.OBJECT,
+    properties: {
+        claims: {
+            type: SchemaType.ARRAY,
+            items: {
+                type: SchemaType.OBJECT,
+                properties: {
+                    text: { type: SchemaType.STRING },
+                    score: { type: SchemaType.INTEGER },
+                    confidence: { type: SchemaType.NUMBER },
+                    checked: { type: SchemaType.BOOLEAN },
+                    status: { type: SchemaType.STRING, format: 'enum', enum: ['true', 'false'] },
+                    speaker: { type: SchemaType.STRING, nullable: true },
+                },
+                required: ['text', 'score'],
+            },
+        },
+    },
+    required: ['claims'],
+};
+
+describe('validateSchema', () => {
+    it('accepts a value matching the schema', () => {
+        expect(validateSchema({
+            claims: [
+                { text: 'GDP grew 3%', score: 80, confidence: 0.5, checked: true, status: 'true', speaker: null },
+                { text: 'Unemployment fell', score: 20 },
+            ],
+        }, claimSchema)).toEqual([]);
+    });
+
+    it('reports missing required and non-nullable values with their path', () => {
+        expect(validateSchema({}, claimSchema)).toEqual(['$.claims is missing']);
+        expect(validateSchema({ claims: [{ text: 'a' }] }, claimSchema)).toEqual(['$.claims[0].score is missing']);
+        expect(validateSchema(null, claimSchema)).toEqual(['$ is missing']);
+    });
+
+    it('reports values of the wrong type', () => {
+        expect(validateSchema({
+            claims: [{ text: 5, score: 1.5, confidence: 'high', checked: 'yes' }],
+        }, claimSchema)).toEqual([
+            '$.claims[0].text must be a string',
+            '$.claims[0].score must be an integer',
+            '$.claims[0].confidence must be a number',
+            '$.claims[0].checked must be true or false',
+        ]);
+        expect(validateSchema({ claims: {} }, claimSchema)).toEqual(['$.claims must be an array']);
+        expect(validateSchema([], claimSchema)).toEqual(['$ must be an object']);
+        expect(validateSchema({ claims: [{ text: 'a', score: 1, confidence: Infinity }] }, claimSchema))
+            .toEqual(['$.claims[0].confidence must be a number']);
+    });
+
+    it('reports strings outside an enum', () => {
+        expect(validateSchema({ claims: [{ text: 'a', score: 1, status: 'maybe' }] }, claimSchema))
+            .toEqual(['$.claims[0].status must be one of true, false, got "maybe"']);
+    });
+
+    it('reports every problem of every array item', () => {
+        expect(validateSchema({ claims: [{ score: 1 }, { text: 'b' }, { text: 'c', score: 2 }] }, claimSchema)).toEqual([
+            '$.claims[0].text is missing',
+            '$.claims[1].score is missing',
+        ]);
+    });
+
+    it('ignores properties the schema does not list', () => {
+        expect(validateSchema({ claims: [], extra: 1 }, claimSchema)).toEqual([]);
+    });
+});
@@ -0,0 +1,130 @@
+import { Content, GenerativeModel, Part, ResponseSchema, Schema, SchemaType } from '@google/generative-ai';
+import { config } from '../config/config';
+
+/**
+ * The model kept answering with JSON that does not match the schema, even after being asked to repair it
+ */
+export class StructuredOutputError extends Error {
+    readonly issues: string[];
+
+    constructor(label: string, issues: string[]) {
+        super(`Invalid ${label} response from the model: ${issues.slice(0, 3).join('; ')}`);
+        this.name = 'StructuredOutputError';
+        this.issues = issues;
+    }
+}
+
+export interface StructuredRequest<T> {
+    label: string;          // what is being generated, for errors and logs - e.g. 'claim extraction'
+    prompt: string;
+    attachments?: Part[];   // sent after the prompt - e.g. images as inline data
+    schema: ResponseSchema; // sent as the response schema and checked again on the answer
+    // Checks the schema cannot express (value ranges, one entry per input, ...) - returns the problems found
+    check?: (data: T) => string[];
+}
+
+// Issues listed in one repair request - the rest are usually the same mistake repeated
+const MAX_REPORTED_ISSUES = 10;
+
+/**
+ * Check a parsed value against a response schema - returns one message per problem, with its JSON path
+ */
+export function validateSchema(value: unknown, schema: Schema, path: string = '$'): string[] {
+    if (value === null || value === undefined) {
+        return schema.nullable ? [] : [`${path} is missing`];
+    }
+
+    switch (schema.type) {
+        case SchemaType.STRING:
+            if (typeof value !== 'string') return [`${path} must be a string`];
+            return schema.enum && !schema.enum.includes(value)
+                ? [`${path} must be one of ${schema.enum.join(', ')}, got "${value}"`]
+                : [];
+        case SchemaType.INTEGER:
+            return typeof value === 'number' && Number.isInteger(value) ? [] : [`${path} must be an integer`];
+        case SchemaType.NUMBER:
+            return typeof value === 'number' && isFinite(value) ? [] : [`${path} must be a number`];
+        case SchemaType.BOOLEAN:
+            return typeof value === 'boolean' ? [] : [`${path} must be true or false`];
+        case SchemaType.ARRAY:
+            if (!Array.isArray(value)) return [`${path} must be an array`];
+            return schema.items ? value.flatMap((item, index) => validateSchema(item, schema.items as Schema, `${path}[${index}]`)) : [];
+        case SchemaType.OBJECT: {
+            if (typeof value !== 'object' || Array.isArray(value)) return [`${path} must be an object`];
+            const record = value as Record<string, unknown>;
+            const missing = (schema.required || [])
+                .filter(key => record[key] === undefined)
+                .map(key => `${path}.${key} is missing`);
+            const invalid = Object.entries(schema.properties || {})
+                .filter(([key]) => record[key] !== undefined)
+                .flatMap(([key, property]) => validateSchema(record[key], property, `${path}.${key}`));
+            return [...missing, ...invalid];
+        }
+        default:
+            return [];
+    }
+}
+
+/**
+ * Parse and validate one answer - the schema normally prevents fences, but older models still add them
+ */
+function parseAnswer<T>(text: string, request: StructuredRequest<T>): { data?: T; issues: string[] } {
+    const cleanJson = text.trim().replace(/^```(?:json)?\s*/, '').replace(/\s*```$/, '');
+
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(cleanJson);
+    } catch (err) {
+        return { issues: [`not valid JSON (${(err as Error).message})`] };
+    }
+
+    const issues = validateSchema(parsed, request.schema);
+    if (issues.length > 0) return { issues };
+
+    const data = parsed as T;
+    const checkIssues = request.check?.(data) || [];
+    return checkIssues.length > 0 ? { issues: checkIssues } : { data, issues: [] };
+}
+
+/**
+ * Generate JSON in the model's structured output mode and validate it
+ * An invalid answer is sent back with the problems found, up to ANALYSIS_REPAIR_ATTEMPTS times;
+ * throws StructuredOutputError when it still does not validate
+ */
+export async function generateStructured<T>(model: GenerativeModel, request: StructuredRequest<T>): Promise<T> {
+    const contents: Content[] = [{ role: 'user', parts: [{ text: request.prompt }, ...(request.attachments || [])] }];
+    let issues: string[] = [];
+
+    for (let attempt = 0; attempt <= config.analysisRepairAttempts; attempt++) {
+        const result = await model.generateContent({
+            contents,
+            generationConfig: {
+                responseMimeType: 'application/json',
+                responseSchema: request.schema,
+            },
+        });
+        const text = result.response.text();
+
+        const answer = parseAnswer(text, request);
+        if (answer.data !== undefined) return answer.data;
+
+        issues = answer.issues;
+        console.warn(`Invalid ${request.label} response (attempt ${attempt + 1}): ${issues.slice(0, 3).join('; ')}`);
+
+        // Keep the conversation so the model repairs its own answer instead of starting over
+        contents.push(
+            { role: 'model', parts: [{ text }] },
+            {
+                role: 'user',
+                parts: [{
+                    text: `Your answer does not match the required JSON schema:
+${issues.slice(0, MAX_REPORTED_ISSUES).map(issue => `- ${issue}`).join('\n')}
+
+Return the complete corrected JSON, nothing else.`,
+                }],
+            }
+        );
+    }
+
+    throw new StructuredOutputError(request.label, issues);
+}
@@ -0,0 +1,74 @@
+import { GenerativeModel, GoogleGenerativeAI, ResponseSchema, SchemaType } from '@google/generative-ai';
+import fs from 'fs';
+import { config } from '../../config/config';
+import { FrameText, OnScreenTextReader, VideoFrame } from '../../types';
+import { generateStructured } from '../structuredOutput';
+
+// Frames sent per request - keeps each request well under the inline data limit
+const FRAMES_PER_BATCH = 8;
+
+const READ_PROMPT = `Each image is a frame of a social media video. For every image, write out the text shown on screen that makes a statement:
+burned-in captions, headlines, chart titles, labels and numbers, and text in screenshots of posts or articles.
+Copy the text exactly, in its original language. Ignore watermarks, usernames, logos and app buttons.`;
+
+const FRAME_TEXT_SCHEMA: ResponseSchema = {
+    type: SchemaType.ARRAY,
+    items: { type: SchemaType.STRING, description: 'Text of the image at this position, empty when it shows none' },
+};
+
+/**
+ * Read one batch of frames - the answer must have exactly one string per frame
+ */
+async function readBatch(model: GenerativeModel, frames: VideoFrame[]): Promise<string[]> {
+    const images = frames.map(frame => ({
+        inlineData: {
+            mimeType: 'image/jpeg',
+            data: fs.readFileSync(frame.path).toString('base64'),
+        },
+    }));
+
+    return generateStructured<string[]>(model, {
+        label: 'frame reading',
+        prompt: `${READ_PROMPT}\n\nReturn a JSON array with exactly ${frames.length} strings - the text of each image in order, "" when an image shows none.`,
+        attachments: images,
+        schema: FRAME_TEXT_SCHEMA,
+        check: texts => texts.length === frames.length
+            ? []
+            : [`expected ${frames.length} frame texts, got ${texts.length}`],
+    });
+}
+
+/**
+ * Read on-screen text with the multimodal model
+ */
+async function read(frames: VideoFrame[], onProgress?: (done: number, total: number) => void): Promise<FrameText[]> {
+    if (!config.geminiApiKey) {
+        throw new Error('Gemini API key not configured');
+    }
+
+    const genAI = new GoogleGenerativeAI(config.geminiApiKey);
+    const model = genAI.getGenerativeModel({ model: config.geminiAnalysisModel });
+
+    const results: FrameText[] = [];
+    for (let i = 0; i < frames.length; i += FRAMES_PER_BATCH) {
+        const batch = frames.slice(i, i + FRAMES_PER_BATCH);
+        const texts = await readBatch(model, batch);
+
+        batch.forEach((frame, index) => {
+            results.push({ timestamp: frame.timestamp, text: texts[index].trim() });
+        });
+        onProgress?.(results.length, frames.length);
+    }
+
+    return results;
+}
+
+async function isConfigured(): Promise<boolean> {
+    return !!config.geminiApiKey && config.geminiApiKey !== 'your_gemini_api_key_here';
+}
+
+export const geminiTextReader: OnScreenTextReader = {
+    name: 'gemini',
+    read,
+    isConfigured,
+};
@@ -0,0 +1,51 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { config } from '../../config/config';
+import { FrameText, OnScreenTextReader, VideoFrame } from '../../types';
+
+const execFileAsync = promisify(execFile);
+
+// Seconds one frame may take - OCR of a 1280px still normally takes one or two
+const FRAME_TIMEOUT_SECONDS = 60;
+
+/**
+ * Read on-screen text with a local Tesseract binary - frames never leave the server
+ */
+async function read(frames: VideoFrame[], onProgress?: (done: number, total: number) => void): Promise<FrameText[]> {
+    const results: FrameText[] = [];
+
+    for (const frame of frames) {
+        const { stdout } = await execFileAsync(config.visualAnalysis.tesseractBinary, [
+            frame.path,
+            'stdout',
+            '-l', config.visualAnalysis.tesseractLanguages,
+        ], {
+            timeout: FRAME_TIMEOUT_SECONDS * 1000,
+            maxBuffer: 4 * 1024 * 1024,
+        });
+
+        // OCR breaks lines where the caption wraps - one line reads better in the prompt
+        results.push({ timestamp: frame.timestamp, text: stdout.replace(/\s+/g, ' ').trim() });
+        onProgress?.(results.length, frames.length);
+    }
+
+    return results;
+}
+
+/**
+ * Check that the tesseract binary runs
+ */
+async function isConfigured(): Promise<boolean> {
+    try {
+        await execFileAsync(config.visualAnalysis.tesseractBinary, ['--version'], { timeout: 10000 });
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+export const tesseractTextReader: OnScreenTextReader = {
+    name: 'tesseract',
+    read,
+    isConfigured,
+};
@@ -0,0 +1,633 @@
+import { GenerativeModel, GoogleGenerativeAI } from '@google/generative-ai';
+import { FileState, GoogleAIFileManager, UploadFileResponse } from '@google/generative-ai/server';
+import fs from 'fs';
+import path from 'path';
+import { config } from '../../config/config';
+import {
+    MissingRange,
+    SilenceRange,
+    TranscribeOptions,
+    TranscriptionChunkState,
+    TranscriptionProgressCallback,
+    TranscriptionProvider,
+    TranscriptionResult,
+    TranscriptSegment
+} from '../../types';
+import { cutSegment, detectSilences, probeMedia } from '../mediaService';
+import { formatTimestamp, mapWithConcurrency, sleep } from '../../utils/helpers';
+import { AUTO_LANGUAGE, getLanguageName } from '../../utils/language';
+import { offsetSegments, parseTimedTranscript, segmentsToText, stitchOverlappingChunks } from '../../utils/transcript';
+
+// 4 MB threshold - be conservative due to base64 encoding (~33% increase)
+const FILE_SIZE_THRESHOLD = 4 * 1024 * 1024;
+
+// Chunking configuration
+const CHUNK_DURATION_SECONDS = 5 * 60; // 5 minutes per chunk
+const CHUNKING_THRESHOLD_SECONDS = 10 * 60; // Use chunking for audio > 10 minutes
+const CHUNK_OVERLAP_SECONDS = 15; // Extra audio on each side of a cut, so words at the cut are heard in full
+const CUT_SEARCH_SECONDS = 30; // How far from the 5-minute mark a cut may move to land in a silence
+const SILENCE_NOISE_DB = -35;
+const SILENCE_MIN_SECONDS = 0.4;
+
+// Asks for one timed line per segment so the output can be parsed into TranscriptSegment[]
+const SEGMENT_FORMAT_INSTRUCTIONS = 'Split the transcription into short segments of one or two sentences. Write each segment on its own line as "[MM:SS-MM:SS] text" with the start and end time of the segment. ' +
+    'If more than one person speaks, start every segment with a speaker label numbered in order of first appearance: "[MM:SS-MM:SS] Speaker 1: text". Start a new segment whenever the speaker changes. ' +
+    'Do not transcribe song lyrics or background music: write each stretch of music or singing as one segment with the text "[Music]".';
+
+// First line of the answer when the model is asked to detect the spoken language: "Language: ar"
+const LANGUAGE_LINE = /^\s*language\s*:\s*([a-z]{2,3}(?:-[a-z0-9]+)*)\s*$/i;
+
+/**
+ * Tell the model which language to transcribe in - never translate, and report the language when detecting it
+ */
+function languageInstructions(language: string): string {
+    if (language === AUTO_LANGUAGE) {
+        return 'Transcribe the audio in the language it is spoken in - do not translate it. ' +
+            'Start your answer with a line "Language: <ISO 639-1 code of the main spoken language>" before the transcription lines.';
+    }
+
+    const languageName = getLanguageName(language);
+    return `The audio is in ${languageName}. Transcribe it accurately in ${languageName} exactly as spoken - do not translate it.`;
+}
+
+/**
+ * Progress message while the model transcribes
+ */
+function transcribingMessage(language: string): string {
+    return language === AUTO_LANGUAGE ? 'Detecting language and transcribing...' : `Transcribing in ${getLanguageName(language)}...`;
+}
+
+/**
+ * Parse the model's answer into segments, taking the detected language off the first line
+ */
+function parseModelTranscript(text: string, duration: number, language: string): { segments: TranscriptSegment[]; language?: string } {
+    const lines = text.trim().split('\n');
+    const languageMatch = LANGUAGE_LINE.exec(lines[0] || '');
+    const body = languageMatch ? lines.slice(1).join('\n') : text;
+
+    return {
+        segments: parseTimedTranscript(body, duration),
+        language: languageMatch ? languageMatch[1].toLowerCase() : language === AUTO_LANGUAGE ? undefined : language,
+    };
+}
+
+/**
+ * Build the transcription result from the model's timed output
+ */
+function toTranscriptionResult(segments: TranscriptSegment[], language?: string): TranscriptionResult {
+    return {
+        transcription: segmentsToText(segments),
+        segments,
+        language,
+    };
+}
+
+/**
+ * Most common language among chunks - long audio can switch languages, the transcript is labelled with the main one
+ */
+function mainLanguage(chunks: TranscriptionChunkState[]): string | undefined {
+    const counts = new Map<string, number>();
+    for (const chunk of chunks) {
+        if (chunk.language) {
+            counts.set(chunk.language, (counts.get(chunk.language) || 0) + 1);
+        }
+    }
+    return Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0]?.[0];
+}
+
+/**
+ * Get audio duration using FFprobe
+ */
+async function getAudioDuration(audioPath: string): Promise<number> {
+    try {
+        const { duration } = await probeMedia(audioPath);
+        console.log(`Audio duration: ${duration} seconds (${(duration / 60).toFixed(1)} minutes)`);
+        return duration;
+    } catch (err) {
+        console.error('Could not get audio duration:', err);
+        return 0; // Fall back to non-chunked approach
+    }
+}
+
+/**
+ * Find pauses in the audio using FFmpeg silencedetect
+ * Returns no silences when detection fails - chunks are then cut at the 5-minute marks
+ */
+async function findSilences(audioPath: string): Promise<SilenceRange[]> {
+    try {
+        return await detectSilences(audioPath, { noiseDb: SILENCE_NOISE_DB, minSeconds: SILENCE_MIN_SECONDS });
+    } catch (err) {
+        console.error('Could not detect silences, cutting at fixed marks:', err);
+        return [];
+    }
+}
+
+/**
+ * Pick the cut nearest to a target time: the middle of the closest pause within the search window
+ */
+function chooseCut(target: number, silences: SilenceRange[]): number {
+    let best = target;
+    let bestDistance = Infinity;
+
+    for (const silence of silences) {
+        const middle = (silence.start + silence.end) / 2;
+        const distance = Math.abs(middle - target);
+        if (distance <= CUT_SEARCH_SECONDS && distance < bestDistance) {
+            best = middle;
+            bestDistance = distance;
+        }
+    }
+
+    return Math.round(best * 100) / 100;
+}
+
+/**
+ * Plan ~5-minute chunks over the whole audio, cut at pauses where possible
+ * start/end are the range a chunk owns - the audio sent for it overlaps its neighbours (see chunkWindow)
+ * Chunks done by an earlier attempt (same boundaries) keep their state and segments
+ */
+function planChunks(
+    totalDuration: number,
+    silences: SilenceRange[],
+    previousChunks: TranscriptionChunkState[] = []
+): TranscriptionChunkState[] {
+    const chunks: TranscriptionChunkState[] = [];
+
+    for (let start = 0, index = 0; start < totalDuration; index++) {
+        // A short tail is folded into the last chunk instead of becoming its own
+        const end = totalDuration - start < CHUNK_DURATION_SECONDS * 1.5
+            ? totalDuration
+            : chooseCut(start + CHUNK_DURATION_SECONDS, silences);
+        const previous = previousChunks.find(c => c.index === index && c.start === start && c.end === end);
+
+        chunks.push(previous?.status === 'done'
+            ? previous
+            : { index, start, end, status: 'pending', attempts: previous?.attempts || 0 });
+        start = end;
+    }
+
+    return chunks;
+}
+
+/**
+ * The audio actually transcribed for a chunk - its own range plus overlap on both sides
+ */
+function chunkWindow(chunk: TranscriptionChunkState, totalDuration: number): { start: number; end: number } {
+    return {
+        start: Math.max(0, chunk.start - CHUNK_OVERLAP_SECONDS),
+        end: Math.min(totalDuration, chunk.end + CHUNK_OVERLAP_SECONDS),
+    };
+}
+
+/**
+ * Cut one chunk (with its overlap) out of the audio using FFmpeg
+ */
+async function cutChunk(audioPath: string, chunk: TranscriptionChunkState, window: { start: number; end: number }): Promise<string> {
+    const ext = path.extname(audioPath);
+    const chunkPath = path.join(path.dirname(audioPath), `${path.basename(audioPath, ext)}_chunk${chunk.index}${ext}`);
+
+    await cutSegment(audioPath, chunkPath, window.start, window.end);
+    console.log(`Created chunk ${chunk.index}: ${window.start}s - ${window.end}s`);
+    return chunkPath;
+}
+
+/**
+ * Transcribe audio using Google Gemini AI
+ * Uses chunking for long audio (>10 min), File API for large files (>4MB)
+ */
+async function transcribe(
+    audioPath: string,
+    language: string,
+    onProgress?: TranscriptionProgressCallback,
+    options?: TranscribeOptions
+): Promise<TranscriptionResult> {
+    if (!config.geminiApiKey) {
+        throw new Error('Gemini API key not configured. Please set GEMINI_API_KEY in .env');
+    }
+
+    onProgress?.(45, 'Initializing transcription...');
+
+    const genAI = new GoogleGenerativeAI(config.geminiApiKey);
+    const model = genAI.getGenerativeModel({ model: config.geminiTranscriptionModel });
+
+    // Get file stats
+    const stats = fs.statSync(audioPath);
+    const fileSizeMB = (stats.size / (1024 * 1024)).toFixed(2);
+    console.log(`Audio file size: ${fileSizeMB} MB, using model: ${config.geminiTranscriptionModel}`);
+
+    // Determine MIME type
+    const ext = path.extname(audioPath).toLowerCase();
+    let mimeType = 'audio/mpeg';
+    if (ext === '.m4a') mimeType = 'audio/mp4';
+    if (ext === '.webm') mimeType = 'audio/webm';
+    if (ext === '.wav') mimeType = 'audio/wav';
+    if (ext === '.ogg' || ext === '.opus') mimeType = 'audio/ogg';
+    if (ext === '.aac') mimeType = 'audio/aac';
+    if (ext === '.flac') mimeType = 'audio/flac';
+    // Uploaded screen recordings and forwarded clips are usually video containers
+    if (ext === '.mp4') mimeType = 'video/mp4';
+    if (ext === '.mov') mimeType = 'video/quicktime';
+    if (ext === '.3gp') mimeType = 'video/3gpp';
+
+    // Check audio duration for chunking decision
+    const audioDuration = await getAudioDuration(audioPath);
+
+    // Use chunking for long audio (>10 minutes)
+    if (audioDuration > CHUNKING_THRESHOLD_SECONDS) {
+        console.log(`Audio is ${(audioDuration / 60).toFixed(1)} min - using chunked transcription`);
+        onProgress?.(48, `Long audio detected (${(audioDuration / 60).toFixed(0)} min), splitting into chunks...`);
+        return await transcribeWithChunking(audioPath, mimeType, language, model, audioDuration, onProgress, options);
+    }
+
+    const prompt = `${languageInstructions(language)} ${SEGMENT_FORMAT_INSTRUCTIONS} Return nothing else.`;
+
+    onProgress?.(48, 'Preparing audio for transcription...');
+
+    // Use File API for anything > 4MB (safer threshold)
+    if (stats.size > FILE_SIZE_THRESHOLD) {
+        console.log('Using Gemini File API for transcription...');
+        return await transcribeWithFileAPI(audioPath, mimeType, language, prompt, model, audioDuration, onProgress);
+    } else {
+        console.log('Using inline data for transcription...');
+        return await transcribeWithInlineData(audioPath, mimeType, language, prompt, model, audioDuration, onProgress);
+    }
+}
+
+/**
+ * Transcribe long audio using chunking approach
+ * Splits audio into ~5-minute chunks cut at pauses and overlapping their neighbours, transcribes them in parallel,
+ * then stitches the segments onto the absolute timeline without the text repeated in the overlaps
+ * Chunks that still fail after their retries are reported as missing ranges instead of leaving a silent gap
+ */
+async function transcribeWithChunking(
+    audioPath: string,
+    mimeType: string,
+    language: string,
+    model: GenerativeModel,
+    totalDuration: number,
+    onProgress?: TranscriptionProgressCallback,
+    options: TranscribeOptions = {}
+): Promise<TranscriptionResult> {
+    onProgress?.(50, 'Splitting audio into chunks...');
+    const chunks = planChunks(totalDuration, await findSilences(audioPath), options.previousChunks);
+    const pending = chunks.filter(c => c.status !== 'done');
+    const reused = chunks.length - pending.length;
+
+    console.log(`Processing ${pending.length}/${chunks.length} chunks for transcription` + (reused > 0 ? ` (${reused} reused from the previous attempt)` : ''));
+    options.onChunksUpdate?.(chunks);
+
+    const fileManager = new GoogleAIFileManager(config.geminiApiKey);
+    let finished = reused;
+
+    await mapWithConcurrency(pending, config.transcriptionChunkConcurrency, async chunk => {
+        const maxAttempts = config.transcriptionChunkRetries + 1;
+
+        for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+            chunk.attempts++;
+            try {
+                const window = chunkWindow(chunk, totalDuration);
+                const transcribed = await transcribeChunk(audioPath, chunk, window, chunks.length, mimeType, language, model, fileManager);
+                chunk.segments = transcribed.segments;
+                chunk.language = transcribed.language;
+                chunk.status = 'done';
+                chunk.error = undefined;
+                break;
+            } catch (err) {
+                chunk.status = 'failed';
+                chunk.error = err instanceof Error ? err.message : String(err);
+                console.error(`Chunk ${chunk.index + 1} attempt ${attempt}/${maxAttempts} failed:`, chunk.error);
+
+                if (attempt < maxAttempts) {
+                    await sleep(Math.pow(2, attempt) * 1000);
+                }
+            }
+        }
+
+        finished++;
+        options.onChunksUpdate?.(chunks);
+        // Chunks fill the transcription band up to 68 - the controller reports 70 once the transcript is stored
+        onProgress?.(50 + Math.floor((finished / chunks.length) * 18), `Transcribed ${finished}/${chunks.length} chunks...`);
+    });
+
+    const done = chunks.filter(c => c.status === 'done');
+    if (done.length === 0) {
+        throw new Error('Failed to transcribe any chunks');
+    }
+
+    onProgress?.(69, 'Merging transcriptions...');
+
+    const segments = stitchOverlappingChunks(done.map(c => ({
+        keepStart: c.start,
+        keepEnd: c.end,
+        segments: c.segments || [],
+    })));
+    // Neighbouring failed chunks become one missing range
+    const missingRanges: MissingRange[] = [];
+    for (const chunk of chunks.filter(c => c.status !== 'done')) {
+        const last = missingRanges[missingRanges.length - 1];
+        if (last && last.end === chunk.start) {
+            last.end = chunk.end;
+        } else {
+            missingRanges.push({ start: chunk.start, end: chunk.end, reason: chunk.error });
+        }
+    }
+
+    console.log(`Successfully transcribed ${done.length}/${chunks.length} chunks (${segments.length} segments)`);
+    onProgress?.(70, 'Transcription complete!');
+
+    return {
+        ...toTranscriptionResult(segments, mainLanguage(done) || (language === AUTO_LANGUAGE ? undefined : language)),
+        missingRanges: missingRanges.length > 0 ? missingRanges : undefined,
+    };
+}
+
+/**
+ * Cut, upload and transcribe a single chunk - throws so the caller can retry it
+ */
+async function transcribeChunk(
+    audioPath: string,
+    chunk: TranscriptionChunkState,
+    window: { start: number; end: number },
+    totalChunks: number,
+    mimeType: string,
+    language: string,
+    model: GenerativeModel,
+    fileManager: GoogleAIFileManager
+): Promise<{ segments: TranscriptSegment[]; language?: string }> {
+    const chunkPath = await cutChunk(audioPath, chunk, window);
+    const startTimeFormatted = formatTimestamp(window.start);
+    const prompt = `${languageInstructions(language)} This is part ${chunk.index + 1} of ${totalChunks} of a longer audio starting at ${startTimeFormatted}. ${SEGMENT_FORMAT_INSTRUCTIONS} Times are relative to the start of this part (00:00). Return nothing else.`;
+
+    try {
+        const uploadResult = await uploadWithRetry(
+            fileManager,
+            chunkPath,
+            {
+                mimeType: mimeType,
+                displayName: path.basename(chunkPath),
+            },
+            3
+        );
+
+        // Wait for processing
+        let file = uploadResult.file;
+        let waitCount = 0;
+        while (file.state === FileState.PROCESSING && waitCount < 30) {
+            await sleep(2000);
+            try {
+                file = await fileManager.getFile(file.name);
+            } catch (e) { /* continue waiting */ }
+            waitCount++;
+        }
+
+        try {
+            if (file.state === FileState.FAILED) {
+                throw new Error('Gemini file processing failed');
+            }
+
+            const result = await model.generateContent([
+                { text: prompt },
+                {
+                    fileData: {
+                        mimeType: file.mimeType,
+                        fileUri: file.uri,
+                    },
+                },
+            ]);
+
+            const transcription = result.response.text();
+            if (!transcription || transcription.trim().length === 0) {
+                throw new Error('Empty transcription');
+            }
+
+            const parsed = parseModelTranscript(transcription, window.end - window.start, language);
+            return {
+                segments: offsetSegments(parsed.segments, window.start, window.end),
+                language: parsed.language,
+            };
+        } finally {
+            // Cleanup uploaded file
+            try {
+                await fileManager.deleteFile(file.name);
+            } catch (e) { /* non-critical */ }
+        }
+    } finally {
+        // Cleanup chunk file
+        try {
+            fs.unlinkSync(chunkPath);
+        } catch (e) { /* non-critical */ }
+    }
+}
+
+/**
+ * Upload file with retry logic and exponential backoff
+ */
+async function uploadWithRetry(
+    fileManager: GoogleAIFileManager,
+    audioPath: string,
+    options: { mimeType: string; displayName: string },
+    maxRetries: number = 3,
+    onProgress?: TranscriptionProgressCallback
+): Promise<UploadFileResponse> {
+    let lastError: Error | null = null;
+
+    for (let attempt = 1; attempt <= maxRetries; attempt++) {
+        try {
+            onProgress?.(50 + attempt, `Uploading audio (attempt ${attempt}/${maxRetries})...`);
+            const result = await fileManager.uploadFile(audioPath, options);
+            return result;
+        } catch (err) {
+            lastError = err instanceof Error ? err : new Error(String(err));
+            console.error(`Upload attempt ${attempt}/${maxRetries} failed:`, lastError.message);
+
+            if (attempt < maxRetries) {
+                // Exponential backoff: 2s, 4s, 8s
+                const delay = Math.pow(2, attempt) * 1000;
+                console.log(`Retrying in ${delay / 1000}s...`);
+                await new Promise(resolve => setTimeout(resolve, delay));
+            }
+        }
+    }
+
+    throw lastError || new Error('Upload failed after all retries');
+}
+
+/**
+ * Transcribe using File API (for larger files)
+ */
+async function transcribeWithFileAPI(
+    audioPath: string,
+    mimeType: string,
+    language: string,
+    prompt: string,
+    model: GenerativeModel,
+    duration: number,
+    onProgress?: TranscriptionProgressCallback
+): Promise<TranscriptionResult> {
+    onProgress?.(50, 'Uploading audio to Gemini...');
+
+    const fileManager = new GoogleAIFileManager(config.geminiApiKey);
+
+    // Upload the file with retry logic
+    const uploadResult = await uploadWithRetry(
+        fileManager,
+        audioPath,
+        {
+            mimeType: mimeType,
+            displayName: path.basename(audioPath),
+        },
+        3,
+        onProgress
+    );
+
+    console.log(`File uploaded: ${uploadResult.file.uri}, state: ${uploadResult.file.state}`);
+    onProgress?.(55, 'Audio uploaded, waiting for processing...');
+
+    // Wait for file to be ready
+    let file = uploadResult.file;
+    let waitCount = 0;
+    const maxWait = 60; // Max 2 minutes wait
+
+    while (file.state === FileState.PROCESSING && waitCount < maxWait) {
+        await new Promise(resolve => setTimeout(resolve, 2000));
+        try {
+            const getResult = await fileManager.getFile(file.name);
+            file = getResult;
+        } catch (e) {
+            console.log('Waiting for file to process...');
+        }
+        waitCount++;
+        onProgress?.(55 + Math.min(waitCount, 10), `Processing audio... (${waitCount * 2}s)`);
+    }
+
+    if (file.state === FileState.FAILED) {
+        throw new Error('Gemini file processing failed. Try a shorter video.');
+    }
+
+    if (file.state !== FileState.ACTIVE) {
+        console.log(`File state: ${file.state}, proceeding anyway...`);
+    }
+
+    onProgress?.(65, transcribingMessage(language));
+
+    // Transcribe with retries
+    let lastError: Error | null = null;
+    for (let attempt = 1; attempt <= 3; attempt++) {
+        try {
+            onProgress?.(65 + attempt * 2, `Transcribing (attempt ${attempt}/3)...`);
+
+            const result = await model.generateContent([
+                { text: prompt },
+                {
+                    fileData: {
+                        mimeType: file.mimeType,
+                        fileUri: file.uri,
+                    },
+                },
+            ]);
+
+            const transcription = result.response.text();
+
+            if (transcription && transcription.trim().length > 0) {
+                // Cleanup: delete the uploaded file
+                try {
+                    await fileManager.deleteFile(file.name);
+                    console.log('Cleaned up uploaded file');
+                } catch (e) {
+                    console.log('Could not delete file (non-critical)');
+                }
+
+                onProgress?.(70, 'Transcription complete!');
+                const parsed = parseModelTranscript(transcription, duration, language);
+                return toTranscriptionResult(parsed.segments, parsed.language);
+            }
+        } catch (err) {
+            lastError = err instanceof Error ? err : new Error(String(err));
+            console.error(`File API transcription attempt ${attempt} failed:`, lastError.message);
+
+            if (attempt < 3) {
+                await new Promise(resolve => setTimeout(resolve, 3000));
+            }
+        }
+    }
+
+    throw lastError || new Error('Transcription failed with File API');
+}
+
+/**
+ * Transcribe using inline data (for small files only)
+ */
+async function transcribeWithInlineData(
+    audioPath: string,
+    mimeType: string,
+    language: string,
+    prompt: string,
+    model: GenerativeModel,
+    duration: number,
+    onProgress?: TranscriptionProgressCallback
+): Promise<TranscriptionResult> {
+    onProgress?.(50, 'Reading audio file...');
+
+    const audioBuffer = fs.readFileSync(audioPath);
+    const base64Audio = audioBuffer.toString('base64');
+
+    onProgress?.(55, transcribingMessage(language));
+
+    let lastError: Error | null = null;
+    for (let attempt = 1; attempt <= 3; attempt++) {
+        try {
+            onProgress?.(55 + attempt * 5, `Transcribing (attempt ${attempt}/3)...`);
+
+            const result = await model.generateContent([
+                { text: prompt },
+                {
+                    inlineData: {
+                        mimeType: mimeType,
+                        data: base64Audio,
+                    },
+                },
+            ]);
+
+            const transcription = result.response.text();
+
+            if (transcription && transcription.trim().length > 0) {
+                onProgress?.(70, 'Transcription complete!');
+                const parsed = parseModelTranscript(transcription, duration, language);
+                return toTranscriptionResult(parsed.segments, parsed.language);
+            }
+        } catch (err) {
+            lastError = err instanceof Error ? err : new Error(String(err));
+            console.error(`Inline transcription attempt ${attempt} failed:`, lastError.message);
+
+            if (attempt < 3) {
+                await new Promise(resolve => setTimeout(resolve, 2000));
+            }
+        }
+    }
+
+    throw lastError || new Error('Transcription failed with inline data');
+}
+
+/**
+ * Check if Gemini API is configured (also used for fact-check analysis)
+ */
+export async function checkGeminiConfigured(): Promise<boolean> {
+    if (!config.geminiApiKey || config.geminiApiKey === 'your_gemini_api_key_here') {
+        return false;
+    }
+
+    try {
+        const genAI = new GoogleGenerativeAI(config.geminiApiKey);
+        const model = genAI.getGenerativeModel({ model: config.geminiTranscriptionModel });
+        await model.generateContent('test');
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+export const geminiTranscriber: TranscriptionProvider = {
+    name: 'gemini',
+    transcribe,
+    isConfigured: checkGeminiConfigured,
+};
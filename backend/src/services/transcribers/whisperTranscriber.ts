@@ -0,0 +1,179 @@
+import { execFile } from 'child_process';
+import fs from 'fs';
+import path from 'path';
+import { promisify } from 'util';
+import { config } from '../../config/config';
+import { TranscriptionProgressCallback, TranscriptionProvider, TranscriptionResult, TranscriptSegment } from '../../types';
+import { transcodeAudio } from '../mediaService';
+import { AUTO_LANGUAGE, getLanguageName } from '../../utils/language';
+import { segmentsToText } from '../../utils/transcript';
+
+const execFileAsync = promisify(execFile);
+
+// Binary names used when WHISPER_BINARY is not set
+const DEFAULT_BINARIES: Record<string, string> = {
+    'whisper.cpp': 'whisper-cli',
+    'faster-whisper': 'whisper-ctranslate2',
+};
+
+// whisper.cpp -oj output: offsets are in milliseconds
+interface WhisperCppOutput {
+    result?: { language?: string };
+    transcription?: Array<{ offsets: { from: number; to: number }; text: string }>;
+}
+
+// faster-whisper / openai-whisper --output_format json output: times are in seconds
+interface FasterWhisperOutput {
+    language?: string;
+    segments?: Array<{ start: number; end: number; text: string }>;
+}
+
+// Segments and the language whisper transcribed in (detected when run with 'auto')
+interface WhisperRun {
+    segments: TranscriptSegment[];
+    language?: string;
+}
+
+function getBinary(): string {
+    return config.whisper.binary || DEFAULT_BINARIES[config.whisper.engine] || 'whisper-cli';
+}
+
+/**
+ * Run a local binary with the configured timeout - output is large for long audio, so raise maxBuffer
+ */
+async function run(binary: string, args: string[]): Promise<void> {
+    await execFileAsync(binary, args, {
+        timeout: config.whisper.timeoutSeconds * 1000,
+        maxBuffer: 64 * 1024 * 1024,
+    });
+}
+
+/**
+ * Convert audio to the 16 kHz mono WAV that whisper.cpp expects
+ */
+async function convertToWav(audioPath: string): Promise<string> {
+    const wavPath = path.join(path.dirname(audioPath), 'whisper_input.wav');
+
+    await transcodeAudio(audioPath, wavPath, { sampleRate: 16000, channels: 1, codec: 'pcm_s16le' });
+    return wavPath;
+}
+
+/**
+ * Transcribe with whisper.cpp (whisper-cli)
+ */
+async function runWhisperCpp(audioPath: string, language: string): Promise<WhisperRun> {
+    if (!config.whisper.model) {
+        throw new Error('WHISPER_MODEL must point at a ggml model file for whisper.cpp');
+    }
+
+    const wavPath = await convertToWav(audioPath);
+    const outputBase = path.join(path.dirname(audioPath), 'whisper_output');
+
+    try {
+        await run(getBinary(), [
+            '-m', config.whisper.model,
+            '-f', wavPath,
+            '-l', language, // whisper.cpp accepts 'auto' itself
+            '-t', String(config.whisper.threads),
+            '-oj',
+            '-of', outputBase,
+            '-np',
+        ]);
+
+        const output = JSON.parse(fs.readFileSync(`${outputBase}.json`, 'utf8')) as WhisperCppOutput;
+        return {
+            segments: (output.transcription || []).map(item => ({
+                start: item.offsets.from / 1000,
+                end: item.offsets.to / 1000,
+                text: item.text.trim(),
+            })),
+            language: output.result?.language,
+        };
+    } finally {
+        fs.rmSync(wavPath, { force: true });
+        fs.rmSync(`${outputBase}.json`, { force: true });
+    }
+}
+
+/**
+ * Transcribe with a faster-whisper CLI (whisper-ctranslate2, or the openai-whisper CLI which shares its flags)
+ */
+async function runFasterWhisper(audioPath: string, language: string): Promise<WhisperRun> {
+    const outputDir = path.join(path.dirname(audioPath), 'whisper_output');
+    fs.mkdirSync(outputDir, { recursive: true });
+
+    try {
+        await run(getBinary(), [
+            audioPath,
+            // Without --language the CLI detects it
+            ...(language === AUTO_LANGUAGE ? [] : ['--language', language]),
+            '--output_format', 'json',
+            '--output_dir', outputDir,
+            '--threads', String(config.whisper.threads),
+            ...(config.whisper.model ? ['--model', config.whisper.model] : []),
+        ]);
+
+        const outputFile = path.join(outputDir, `${path.basename(audioPath, path.extname(audioPath))}.json`);
+        const output = JSON.parse(fs.readFileSync(outputFile, 'utf8')) as FasterWhisperOutput;
+        return {
+            segments: (output.segments || []).map(segment => ({
+                start: segment.start,
+                end: segment.end,
+                text: segment.text.trim(),
+            })),
+            language: output.language,
+        };
+    } finally {
+        fs.rmSync(outputDir, { recursive: true, force: true });
+    }
+}
+
+/**
+ * Transcribe audio with a local whisper binary - nothing is sent to external services
+ */
+async function transcribe(
+    audioPath: string,
+    language: string,
+    onProgress?: TranscriptionProgressCallback
+): Promise<TranscriptionResult> {
+    onProgress?.(50, `Transcribing locally with ${config.whisper.engine}...`);
+    console.log(`Transcribing ${audioPath} with ${config.whisper.engine} (${getBinary()}), language: ${language === AUTO_LANGUAGE ? 'auto-detect' : getLanguageName(language)}`);
+
+    const output = config.whisper.engine === 'faster-whisper'
+        ? await runFasterWhisper(audioPath, language)
+        : await runWhisperCpp(audioPath, language);
+
+    const nonEmpty = output.segments.filter(segment => segment.text.length > 0);
+    if (nonEmpty.length === 0) {
+        throw new Error('Whisper returned an empty transcription');
+    }
+
+    onProgress?.(70, 'Transcription complete!');
+    return {
+        transcription: segmentsToText(nonEmpty),
+        segments: nonEmpty,
+        language: output.language || (language === AUTO_LANGUAGE ? undefined : language),
+    };
+}
+
+/**
+ * Check that the whisper binary runs (and the whisper.cpp model exists)
+ */
+async function isConfigured(): Promise<boolean> {
+    if (config.whisper.engine === 'whisper.cpp' && (!config.whisper.model || !fs.existsSync(config.whisper.model))) {
+        return false;
+    }
+
+    try {
+        await execFileAsync(getBinary(), ['--help'], { timeout: 10000 });
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+export const whisperTranscriber: TranscriptionProvider = {
+    name: 'whisper',
+    transcribe,
+    isConfigured,
+};
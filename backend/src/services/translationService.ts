@@ -0,0 +1,80 @@
+import { GenerativeModel, GoogleGenerativeAI, ResponseSchema, SchemaType } from '@google/generative-ai';
+import { config } from '../config/config';
+import { TranscriptSegment, TranscriptTranslation } from '../types';
+import { getLanguageName } from '../utils/language';
+import { segmentsToText } from '../utils/transcript';
+import { generateStructured } from './structuredOutput';
+
+// Segments sent per request - keeps each answer well under the output token limit
+const SEGMENTS_PER_BATCH = 80;
+
+const TRANSLATION_SCHEMA: ResponseSchema = {
+    type: SchemaType.ARRAY,
+    items: { type: SchemaType.STRING, description: 'Translation of the segment at this position' },
+};
+
+/**
+ * Translate one batch of segments - the answer must have exactly one string per segment
+ */
+async function translateBatch(
+    model: GenerativeModel,
+    segments: TranscriptSegment[],
+    fromName: string,
+    toName: string
+): Promise<string[]> {
+    const lines = segments.map((segment, index) => ({ index, text: segment.text }));
+    const prompt = `Translate each transcript segment below from ${fromName} to ${toName}.
+Keep the meaning, names and numbers exactly; do not summarize, merge or drop segments.
+
+SEGMENTS (JSON):
+${JSON.stringify(lines)}
+
+Return a JSON array with exactly ${segments.length} strings - the translation of each segment, in the same order.`;
+
+    return generateStructured<string[]>(model, {
+        label: 'translation',
+        prompt,
+        schema: TRANSLATION_SCHEMA,
+        check: translated => translated.length === segments.length
+            ? []
+            : [`expected ${segments.length} translated segments, got ${translated.length}`],
+    });
+}
+
+/**
+ * Translate transcript segments to another language, keeping their timing and speakers
+ */
+export async function translateSegments(
+    segments: TranscriptSegment[],
+    fromLanguage: string,
+    toLanguage: string,
+    speakerNames?: Record<string, string>,
+    onProgress?: (done: number, total: number) => void
+): Promise<TranscriptTranslation> {
+    if (!config.geminiApiKey) {
+        throw new Error('Gemini API key not configured');
+    }
+
+    const genAI = new GoogleGenerativeAI(config.geminiApiKey);
+    const model = genAI.getGenerativeModel({ model: config.geminiAnalysisModel });
+    const fromName = getLanguageName(fromLanguage);
+    const toName = getLanguageName(toLanguage);
+
+    const translatedSegments: TranscriptSegment[] = [];
+    for (let i = 0; i < segments.length; i += SEGMENTS_PER_BATCH) {
+        const batch = segments.slice(i, i + SEGMENTS_PER_BATCH);
+        const texts = await translateBatch(model, batch, fromName, toName);
+
+        batch.forEach((segment, index) => {
+            translatedSegments.push({ ...segment, text: texts[index].trim() });
+        });
+        onProgress?.(translatedSegments.length, segments.length);
+    }
+
+    console.log(`Translated ${segments.length} segments from ${fromName} to ${toName}`);
+    return {
+        language: toLanguage,
+        transcription: segmentsToText(translatedSegments, speakerNames),
+        segments: translatedSegments,
+    };
+}
@@ -0,0 +1,117 @@
+import fs from 'fs';
+import path from 'path';
+import { config } from '../config/config';
+import { FrameText, OnScreenText, OnScreenTextReader, TranscriptionProgressCallback } from '../types';
+import { extractFrames, probeMedia } from './mediaService';
+import { geminiTextReader } from './textReaders/geminiTextReader';
+import { tesseractTextReader } from './textReaders/tesseractTextReader';
+
+// Share of words two frames must have in common to show the same text (OCR misreads a word here and there)
+const SAME_TEXT_RATIO = 0.8;
+
+// Registered on-screen text readers by name
+const readers: Map<string, OnScreenTextReader> = new Map();
+
+/**
+ * Register an on-screen text reader (replaces an existing one with the same name)
+ */
+export function registerOnScreenTextReader(reader: OnScreenTextReader): void {
+    readers.set(reader.name, reader);
+}
+
+/**
+ * Get the names of all registered readers
+ */
+export function getOnScreenTextReaderNames(): string[] {
+    return Array.from(readers.keys());
+}
+
+/**
+ * Get a reader by name, or the configured default
+ */
+export function getOnScreenTextReader(name: string = config.visualAnalysis.reader): OnScreenTextReader {
+    const reader = readers.get(name);
+    if (!reader) {
+        throw new Error(`Unknown on-screen text reader: ${name}. Available: ${getOnScreenTextReaderNames().join(', ')}`);
+    }
+    return reader;
+}
+
+// Words of a text without case and punctuation
+function toWords(text: string): Set<string> {
+    return new Set(text.toLowerCase().split(/\s+/).map(word => word.replace(/[^\p{L}\p{N}]/gu, '')).filter(Boolean));
+}
+
+/**
+ * Check if two frames show the same text
+ */
+function isSameText(a: string, b: string): boolean {
+    const wordsA = toWords(a);
+    const wordsB = toWords(b);
+    const shared = [...wordsA].filter(word => wordsB.has(word)).length;
+    const total = new Set([...wordsA, ...wordsB]).size;
+    return total > 0 && shared / total >= SAME_TEXT_RATIO;
+}
+
+/**
+ * Merge consecutive frames showing the same text - a caption stays on screen for several frames
+ */
+function mergeFrameTexts(texts: FrameText[]): OnScreenText[] {
+    const merged: OnScreenText[] = [];
+
+    for (const frame of [...texts].sort((a, b) => a.timestamp - b.timestamp)) {
+        if (!frame.text) continue;
+
+        const previous = merged[merged.length - 1];
+        if (previous && isSameText(previous.text, frame.text)) {
+            previous.end = frame.timestamp;
+            // Keep the longest reading - partly faded-in captions are read incompletely
+            if (frame.text.length > previous.text.length) previous.text = frame.text;
+        } else {
+            merged.push({ start: frame.timestamp, end: frame.timestamp, text: frame.text });
+        }
+    }
+
+    return merged;
+}
+
+/**
+ * Read the text shown in a video: take stills at scene changes and at a fixed interval,
+ * read them with the configured reader and merge repeated text
+ */
+export async function extractOnScreenText(
+    videoPath: string,
+    workDir: string,
+    onProgress?: TranscriptionProgressCallback,
+    signal?: AbortSignal
+): Promise<OnScreenText[]> {
+    const reader = getOnScreenTextReader();
+    const probe = await probeMedia(videoPath, { signal });
+    if (!probe.videoCodec) {
+        throw new Error('The media has no video track');
+    }
+
+    // Long videos are sampled more sparsely so the frame budget covers all of it
+    const { frameIntervalSeconds, sceneThreshold, maxFrames } = config.visualAnalysis;
+    const intervalSeconds = Math.max(frameIntervalSeconds, probe.duration / maxFrames);
+    const framesDir = path.join(workDir, 'frames');
+
+    try {
+        onProgress?.(40, 'Extracting video frames...');
+        const frames = await extractFrames(videoPath, framesDir, { intervalSeconds, sceneThreshold, maxFrames, signal });
+
+        const texts = await reader.read(frames, (done, total) => {
+            onProgress?.(42, `Reading on-screen text (${done}/${total} frames)...`);
+        });
+        const onScreenText = mergeFrameTexts(texts);
+
+        console.log(`Read on-screen text with ${reader.name}: ${onScreenText.length} text(s) in ${frames.length} frames`);
+        return onScreenText;
+    } finally {
+        fs.rmSync(framesDir, { recursive: true, force: true });
+    }
+}
+
+// Built-in readers
+registerOnScreenTextReader(geminiTextReader);
+registerOnScreenTextReader(tesseractTextReader);
@@ -1,6 +1,12 @@
 // Video processing status
 export type VideoStatus = 'pending' | 'downloading' | 'transcribing' | 'analyzing' | 'completed' | 'error';
 
+// Where the job's media came from
+export type VideoSource = 'url' | 'upload';
+
+// How the job's transcript was produced
+export type TranscriptSource = 'manual_captions' | 'auto_captions' | 'ai_transcription';
+
 // Claim verification status
 export type ClaimStatus = 'true' | 'false' | 'partially_true' | 'unverifiable';
 
@@ -14,33 +20,157 @@ export interface Claim {
     explanation: string;
     wrongPart?: string;
     correction?: string;
-    sources?: string[];
+    sources?: SourceLink[];
+    speaker?: string; // speaker label from the transcript, e.g. "Speaker 2"
+    source?: ClaimSource;
+    frameTimestamp?: number; // seconds - frame showing an on-screen claim
+    evidence?: EvidencePassage[]; // passages retrieved for the claim before the verdict
+}
+
+// Where a claim was found: said in the audio or written on screen (captions, charts, screenshots)
+export type ClaimSource = 'speech' | 'on_screen';
+
+// Source metadata reported by the platform
+export interface VideoMetadata {
+    uploader?: string;
+    uploaderId?: string;
+    channel?: string;
+    channelId?: string;
+    uploadDate?: string; // YYYY-MM-DD
+    description?: string;
+    viewCount?: number;
+    likeCount?: number;
+    thumbnailUrl?: string;
+    webpageUrl?: string; // canonical page URL
 }
 
 // Video data interface
 export interface VideoData {
     id: string;
-    url: string;
+    source: VideoSource;
+    url?: string;
+    fileName?: string; // original name of an uploaded file
     platform: string;
     title?: string;
     duration?: number;
-    language: string;
+    metadata?: VideoMetadata;
+    language: string;        // response language: claims, explanations and the translated transcript
+    spokenLanguage: string;  // requested language of the audio, 'auto' to detect it
+    detectedLanguage?: string; // language the transcript is actually in
+    translate: boolean;      // also produce a transcript in the response language
     status: VideoStatus;
     progress: number;
     statusMessage: string;
     audioPath?: string;
-    transcription?: string;
+    transcription?: string; // plain text rendered from segments
+    segments?: TranscriptSegment[];
+    translation?: TranscriptTranslation; // original transcript translated to the response language
+    originalTranscription?: string; // as transcribed, kept once the transcript is edited
+    originalSegments?: TranscriptSegment[];
+    transcriptEditedAt?: Date;
+    speakerNames?: Record<string, string>; // speaker label -> display name set through the API
+    transcriptSource?: TranscriptSource;
+    transcriptionProvider?: string; // provider that produced an AI transcription
+    transcriptionChunks?: TranscriptionChunkState[];
+    missingRanges?: MissingRange[]; // parts of the audio missing from the transcript
+    skippedRanges?: SilenceRange[]; // silent parts left out of the audio sent for transcription
+    audioNormalization?: AudioNormalization; // set once the downloaded audio was converted for speech recognition
+    analyzeVisuals: boolean; // also read text shown in the video frames
+    videoPath?: string;      // video track downloaded for the visual stage, when separate from audioPath
+    onScreenText?: OnScreenText[];
     claims?: Claim[];
     overallScore?: number;
     analyzedAt?: Date;
     createdAt: Date;
     error?: string;
+    errorCode?: string;
+    downloadProgress?: DownloadProgress;
+    cacheKey?: string; // canonical identity of the source video, e.g. youtube:dQw4w9WgXcQ
+    cache?: CacheStatus;
+    batch?: BatchInfo; // set on the parent job of an expanded playlist
+    parentId?: string; // set on each child job of a batch
+    abortController?: AbortController; // aborted when the job is deleted - stops its running ffmpeg/ffprobe
+}
+
+// Whether a job was served from the result cache
+export interface CacheStatus {
+    hit: boolean;
+    key: string;
+    cachedAt?: Date;         // when the reused transcription was produced
+    analysisReused: boolean; // claims were copied from the latest cached analysis
+}
+
+// Transcript rendered in another language, segment for segment
+export interface TranscriptTranslation {
+    language: string;
+    transcription: string; // rendered from segments
+    segments: TranscriptSegment[];
+}
+
+// Transcription and latest analysis stored per video identity, spoken and response language
+export interface CachedResult {
+    key: string;
+    language: string;
+    spokenLanguage: string;
+    detectedLanguage?: string;
+    title?: string;
+    duration?: number;
+    platform: string;
+    metadata?: VideoMetadata;
+    transcription: string;
+    segments?: TranscriptSegment[];
+    translation?: TranscriptTranslation;
+    transcriptSource?: TranscriptSource;
+    onScreenText?: OnScreenText[];
+    cachedAt: Date;
+    analysis?: {
+        claims: Claim[];
+        overallScore: number;
+        analyzedAt: Date;
+    };
+}
+
+// Playlist/channel/multi-video expansion state kept on the parent job
+export interface BatchInfo {
+    childIds: string[];
+    totalEntries: number; // entries found before the maxItems cap
+    moreEntries?: boolean; // the listing stopped after maxItems and the platform did not report a total
 }
 
 // API Request/Response interfaces
 export interface ProcessVideoRequest {
     url: string;
-    language: string;
+    responseLanguage?: string; // Language of claims and explanations
+    language?: string; // Older name of responseLanguage
+    spokenLanguage?: string; // Language of the audio, 'auto' (default) to detect it
+    translateTranscript?: boolean; // Also translate the transcript to the response language
+    useCaptions?: boolean; // Use platform subtitles when available (defaults to config.preferCaptions)
+    limits?: Partial<PreflightLimits>; // Admin-only overrides, requires the X-Admin-Token header
+    maxItems?: number; // Cap on videos processed from a playlist/channel/multi-video post
+    force?: boolean; // Skip the result cache and process the video from scratch
+    reuseAnalysis?: boolean; // Also reuse the latest cached fact-check when there is one
+    transcriptionProvider?: string; // 'gemini' or 'whisper' (defaults to config.transcriptionProvider)
+    analyzeVisuals?: boolean; // Also fact-check text shown on screen (defaults to config.visualAnalysis.enabled)
+}
+
+export interface RenameSpeakersRequest {
+    speakers: Record<string, string | null>; // label -> new name, null or '' to reset
+}
+
+// Send one of: the whole corrected text, edits of single segments, or revert to restore the original
+export interface EditTranscriptionRequest {
+    transcription?: string; // only for transcripts without segments
+    segments?: Array<{ index: number; text: string }>; // '' removes the segment
+    revert?: boolean;
+}
+
+export interface UploadVideoRequest {
+    responseLanguage?: string;
+    language?: string;
+    spokenLanguage?: string;
+    translateTranscript?: boolean | string; // multipart fields arrive as strings
+    transcriptionProvider?: string;
+    analyzeVisuals?: boolean | string;
 }
 
 export interface ProcessVideoResponse {
@@ -54,10 +184,66 @@ export interface VideoStatusResponse {
     progress: number;
     statusMessage: string;
     transcription?: string;
+    segments?: TranscriptSegment[];
+    transcriptSource?: TranscriptSource;
+    downloadProgress?: DownloadProgress;
+    cache?: CacheStatus;
 }
 
 export interface AnalyzeRequest {
-    useInternet?: boolean;
+    useInternet?: boolean; // also retrieve evidence from online providers (local documents are always searched)
+}
+
+// How a retrieved passage relates to the claim, as judged by the verdict model
+export type EvidenceStance = 'supports' | 'refutes' | 'neutral';
+
+// A passage found for a claim by an evidence provider
+export interface EvidencePassage {
+    provider: string; // e.g. 'wikipedia', 'web', 'local'
+    title: string;
+    url?: string;
+    snippet: string;
+    stance?: EvidenceStance;
+}
+
+export interface EvidenceQuery {
+    claim: string;
+    language: string; // language the claim is written in
+    maxResults: number;
+}
+
+// Source of passages that support or refute a claim (search API, Wikipedia, local documents, ...)
+export interface EvidenceProvider {
+    name: string;
+    online: boolean; // needs internet access - only used when the analysis allows it
+    isConfigured(): Promise<boolean>;
+    search(query: EvidenceQuery): Promise<EvidencePassage[]>;
+}
+
+// Credibility of a source's domain, from SOURCE_TRUSTED_DOMAINS and SOURCE_LOW_DOMAINS - unlisted domains are neutral
+export type SourceTier = 'trusted' | 'neutral' | 'low';
+
+// A URL cited for a verdict, checked after the fact-check
+export interface SourceLink {
+    url: string;       // after redirects, when the page was fetched
+    title?: string;    // page title, when it could be read
+    domain: string;    // host without "www."
+    tier: SourceTier;
+    verified: boolean; // the page was found - false when it could not be checked (timeout, blocked, no fetcher)
+}
+
+// Outcome of looking up a source URL: 'not_found' means the page or domain does not exist
+export interface FetchedSource {
+    status: 'ok' | 'not_found' | 'unreachable';
+    url?: string;   // final URL
+    title?: string;
+}
+
+// Checks that a source URL exists - a plain HTTP request or a site's own API
+export interface SourceFetcher {
+    name: string;
+    handles(url: URL): boolean;
+    fetch(url: URL): Promise<FetchedSource>;
 }
 
 export interface FactCheckResult {
@@ -74,10 +260,15 @@ export interface FactCheckResult {
 
 export interface VideoResultResponse {
     id: string;
-    url: string;
+    source: VideoSource;
+    url?: string;
+    fileName?: string;
     title?: string;
+    duration?: number;
+    metadata?: VideoMetadata;
     language: string;
     transcription: string;
+    transcriptSource?: TranscriptSource;
     overallScore: number;
     claims: Claim[];
     summary: {
@@ -89,6 +280,259 @@ export interface VideoResultResponse {
     };
 }
 
+// Subtitles published on the platform, already converted to transcript text
+// A timed piece of the transcript - start/end in seconds on the full media timeline
+export interface TranscriptSegment {
+    start: number;
+    end: number;
+    text: string;
+    speaker?: string; // "Speaker 1", "Speaker 2", ... when several people talk
+    music?: boolean;  // music or singing rather than speech - not fact-checked
+}
+
+export interface CaptionTrack {
+    transcription: string; // derived from segments
+    segments: TranscriptSegment[];
+    language: string;
+    source: 'manual_captions' | 'auto_captions';
+}
+
+export interface DownloadOptions {
+    language: string; // spoken language - captions are only used in this language
+    useCaptions: boolean;
+    includeVideo?: boolean; // also fetch a video track for the visual stage
+    profile?: DownloadProfile;
+    limits?: PreflightLimits; // downloads whose size is unknown up front are stopped once they grow past the limit
+}
+
+// yt-dlp settings for a set of platforms, loaded from DOWNLOAD_PROFILES_FILE
+export interface DownloadProfile {
+    name: string;
+    platforms?: string[];  // platform ids this profile applies to - omit for all platforms
+    cookiesFile?: string;  // Netscape-format cookies.txt, e.g. exported from a logged-in browser
+    proxy?: string;        // e.g. socks5://127.0.0.1:1080
+    userAgent?: string;
+    referer?: string;
+    rateLimit?: string;    // e.g. '2M' (bytes per second)
+    retries?: number;
+    extraArgs?: Record<string, string | number | boolean>; // more yt-dlp options, camelCase (e.g. geoBypassCountry) - cannot override output, format or playlist flags
+}
+
+// One entry of a playlist, channel tab or multi-video post
+export interface MediaEntry {
+    url: string;
+    title?: string;
+    duration?: number;
+    playlistIndex?: number; // set when entries share the parent URL (e.g. several videos in one X post)
+}
+
+// Information about media gathered before downloading it (used for preflight checks)
+export interface MediaInfo {
+    title: string;
+    duration: number;       // in seconds, 0 when unknown
+    filesizeBytes?: number; // size of the media we would download, when known
+    isLive: boolean;
+    ageRestricted: boolean;
+    metadata?: VideoMetadata;
+    language?: string;      // original language reported by the platform
+    profileName?: string;   // download profile that worked during the probe
+    cacheKey?: string;      // stable "extractor:id" identity, absent when results should not be cached
+    entries?: MediaEntry[]; // present when the URL holds several videos
+    entryCount?: number;    // total entries, when the platform reports it - entries can stop short of it
+    playlistIndex?: number; // the single entry this info was narrowed to
+    raw?: unknown;          // downloader-specific payload, e.g. the yt-dlp info JSON
+}
+
+// Audio stream details reported by ffprobe
+export interface AudioStreamInfo {
+    codec: string;        // e.g. 'aac', 'opus', 'mp3', 'pcm_s16le'
+    sampleRate?: number;  // Hz
+    channels?: number;
+    channelLayout?: string; // e.g. 'mono', 'stereo'
+    bitRate?: number;     // bits per second
+}
+
+// Container and stream details of a local media file
+export interface MediaProbeResult {
+    duration: number;     // in seconds, 0 when unknown
+    formatName: string;   // e.g. 'mov,mp4,m4a,3gp,3g2,mj2'
+    sizeBytes?: number;
+    bitRate?: number;
+    audio?: AudioStreamInfo; // first audio stream, absent for silent video
+    videoCodec?: string;     // first video stream, absent for audio-only files
+}
+
+// Size and format of an audio file, recorded before and after normalization
+export interface AudioFileSummary {
+    sizeBytes: number;
+    formatName: string;
+    codec?: string;
+    sampleRate?: number;
+    channels?: number;
+    duration: number;
+    hasVideo: boolean;
+}
+
+// Conversion of the downloaded media into speech-optimized audio
+export interface AudioNormalization {
+    before: AudioFileSummary;
+    after: AudioFileSummary;
+    filters: string[]; // ffmpeg audio filters applied
+}
+
+// A still taken from the video for the visual stage
+export interface VideoFrame {
+    path: string;
+    timestamp: number; // in seconds
+}
+
+// Text read from one frame
+export interface FrameText {
+    timestamp: number;
+    text: string; // '' when the frame shows no readable text
+}
+
+// Text shown on screen - consecutive frames with the same text are merged
+export interface OnScreenText {
+    start: number; // first frame showing it, in seconds
+    end: number;   // last frame showing it
+    text: string;
+}
+
+// Reads on-screen text from video frames (multimodal model or local OCR engine)
+export interface OnScreenTextReader {
+    name: string;
+    isConfigured(): Promise<boolean>;
+    read(frames: VideoFrame[], onProgress?: (done: number, total: number) => void): Promise<FrameText[]>;
+}
+
+// A span of the media timeline, in seconds
+export interface TimeRange {
+    start: number;
+    end: number;
+}
+
+// A pause found by silence detection
+export type SilenceRange = TimeRange;
+
+// Limits checked during preflight - 0 disables a numeric limit
+export interface PreflightLimits {
+    maxDurationSeconds: number;
+    maxFilesizeMB: number;
+    allowLive: boolean;
+    allowAgeRestricted: boolean;
+}
+
+export type PreflightErrorCode =
+    | 'DURATION_LIMIT_EXCEEDED'
+    | 'FILESIZE_LIMIT_EXCEEDED'
+    | 'LIVE_STREAM_NOT_ALLOWED'
+    | 'AGE_RESTRICTED';
+
+// Result of fetching a job's media into its temp directory
+// audioPath is omitted when captions were found and the audio download was skipped
+export interface DownloadResult {
+    audioPath?: string;
+    videoPath?: string; // separate video track, when includeVideo was set and the audio has none
+    title: string;
+    duration: number;
+    metadata?: VideoMetadata;
+    captions?: CaptionTrack;
+}
+
+// Live transfer stats reported while media downloads
+export interface DownloadProgress {
+    percent: number; // 0-100 of the current file
+    downloadedBytes?: number;
+    totalBytes?: number;
+    speedBytesPerSecond?: number;
+    etaSeconds?: number;
+}
+
+// Progress callback for the download stage - transfer is set while bytes are flowing
+export type DownloadProgressCallback = (progress: number, message: string, transfer?: DownloadProgress) => void;
+
+// Strategy used to fetch media for a platform
+export interface Downloader {
+    name: string;
+    usesProfiles?: boolean; // retried with the next download profile on auth/geo errors
+    // Gather media information without downloading the media itself
+    // playlistIndex narrows a multi-video URL down to one entry (1-based)
+    // maxEntries: listing a playlist may stop once more than this many entries are found
+    probe(url: string, playlistIndex?: number, profile?: DownloadProfile, maxEntries?: number): Promise<MediaInfo>;
+    download(
+        url: string,
+        videoDir: string,
+        info: MediaInfo,
+        options: DownloadOptions,
+        onProgress?: DownloadProgressCallback
+    ): Promise<DownloadResult>;
+}
+
+// A part of the audio that could not be transcribed (seconds)
+export interface MissingRange {
+    start: number;
+    end: number;
+    reason?: string;
+}
+
+// Audio reduced to its speech before transcription
+export interface SpeechAudio {
+    audioPath: string;        // speech-only file, or the original when nothing was cut
+    regions: TimeRange[];     // speech regions on the original timeline, in playback order
+    skipped: SilenceRange[];  // silent parts left out
+    duration: number;         // of the original audio
+}
+
+// State of one chunk of a chunked transcription - kept on the job so a retry only redoes failed chunks
+export interface TranscriptionChunkState {
+    index: number;
+    start: number; // in seconds
+    end: number;   // in seconds
+    status: 'pending' | 'done' | 'failed';
+    attempts: number;
+    error?: string;
+    segments?: TranscriptSegment[]; // absolute timeline, set once done
+    language?: string; // language detected in this chunk
+}
+
+// Output of a transcription provider
+export interface TranscriptionResult {
+    transcription: string; // rendered from segments
+    segments: TranscriptSegment[];
+    language?: string; // code of the spoken language - detected when transcribing with 'auto'
+    missingRanges?: MissingRange[]; // set when some chunks failed
+}
+
+export type TranscriptionProgressCallback = (progress: number, message: string) => void;
+
+export interface TranscribeOptions {
+    previousChunks?: TranscriptionChunkState[]; // chunks already done by an earlier attempt are reused
+    onChunksUpdate?: (chunks: TranscriptionChunkState[]) => void;
+}
+
+// Speech-to-text engine (Gemini, local whisper, ...)
+export interface TranscriptionProvider {
+    name: string;
+    transcribe(
+        audioPath: string,
+        language: string, // spoken language code or 'auto'
+        onProgress?: TranscriptionProgressCallback,
+        options?: TranscribeOptions
+    ): Promise<TranscriptionResult>;
+    isConfigured(): Promise<boolean>;
+}
+
+// A platform registered in the platform registry
+export interface PlatformDefinition {
+    id: string;
+    name: string;
+    domains: string[];
+    // Defaults to matching the hostname against `domains` (including subdomains)
+    matches?: (url: URL) => boolean;
+    downloader: Downloader;
+}
+
 export interface LanguageOption {
     code: string;
     name: string;
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { canonicalizeUrl } from './canonicalUrl';
+
+describe('canonicalizeUrl', () => {
+    it('gives every YouTube share link of a video the same watch URL', () => {
+        const canonical = 'https://youtube.com/watch?v=abc123DEF';
+
+        expect(canonicalizeUrl('https://youtu.be/abc123DEF?si=xyz')).toBe(canonical);
+        expect(canonicalizeUrl('https://m.youtube.com/shorts/abc123DEF?feature=share')).toBe(canonical);
+        expect(canonicalizeUrl('https://www.youtube.com/live/abc123DEF')).toBe(canonical);
+        expect(canonicalizeUrl('https://www.youtube.com/embed/abc123DEF/')).toBe(canonical);
+        expect(canonicalizeUrl('https://www.youtube.com/watch?v=abc123DEF&t=42s&utm_source=newsletter')).toBe(canonical);
+        expect(canonicalizeUrl('http://music.youtube.com/watch?v=abc123DEF')).toBe(canonical);
+    });
+
+    it('keeps parameters that select content, in a stable order', () => {
+        expect(canonicalizeUrl('https://www.youtube.com/watch?v=abc123DEF&list=PL1')).toBe('https://youtube.com/watch?list=PL1&v=abc123DEF');
+        expect(canonicalizeUrl('https://www.tiktok.com/@user/video/123?_r=1&_t=abc')).toBe('https://tiktok.com/@user/video/123');
+    });
+
+    it('maps x.com to twitter.com and Instagram reels to reel', () => {
+        expect(canonicalizeUrl('https://x.com/user/status/123/')).toBe('https://twitter.com/user/status/123');
+        expect(canonicalizeUrl('https://mobile.twitter.com/user/status/123?s=20')).toBe('https://twitter.com/user/status/123');
+        expect(canonicalizeUrl('https://www.instagram.com/reels/ABC/?igsh=xx')).toBe('https://instagram.com/reel/ABC');
+    });
+
+    it('keeps the URL of any other host exact', () => {
+        expect(canonicalizeUrl('https://cdn.example.com/clip.mp4?s=1')).not.toBe(canonicalizeUrl('https://cdn.example.com/clip.mp4?s=2'));
+        expect(canonicalizeUrl('https://example.com/video.mp4?b=2&a=1&t=5&utm_source=x')).toBe('https://example.com/video.mp4?b=2&a=1&t=5&utm_source=x');
+        expect(canonicalizeUrl('http://www.example.com/Path/')).toBe('http://www.example.com/Path/');
+        expect(canonicalizeUrl('https://m.example.com/clip.mp4')).toBe('https://m.example.com/clip.mp4');
+    });
+
+    it('leaves other schemes and text that is not a URL alone', () => {
+        expect(canonicalizeUrl('file:///tmp/clip.mp4')).toBe('file:///tmp/clip.mp4');
+        expect(canonicalizeUrl('  not a url ')).toBe('not a url');
+    });
+});
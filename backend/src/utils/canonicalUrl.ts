@@ -0,0 +1,69 @@
+// Platforms whose share links vary by tracking parameters, mirror subdomains and scheme - other URLs are kept exact,
+// since a parameter like ?s= or a subdomain can select different media on an arbitrary host
+const PLATFORM_DOMAINS = ['youtube.com', 'youtu.be', 'twitter.com', 'x.com', 'instagram.com', 'facebook.com', 'fb.watch', 'tiktok.com'];
+
+// Query parameters that only track where a link was shared from
+const TRACKING_PARAMS = new Set([
+    'si', 'feature', 'pp', 'app', 't', 's',
+    'fbclid', 'gclid', 'igshid', 'igsh', 'mibextid',
+    'ref', 'ref_src', 'ref_url', 'share_app_id', 'sender_device', 'is_from_webapp', '_r', '_t',
+]);
+
+// Subdomains that serve the same content as the bare domain
+const MIRROR_SUBDOMAINS = /^(www|m|mobile|mbasic|web)\./;
+
+// YouTube paths that carry the video ID instead of ?v=
+const YOUTUBE_ID_PATH = /^\/(shorts|live|embed|v)\/([\w-]{6,})/;
+
+/**
+ * Normalize a video URL so share-link variants of the same video compare equal
+ * e.g. youtu.be/ID, m.youtube.com/shorts/ID?si=... -> https://youtube.com/watch?v=ID
+ * Only URLs of known platforms are rewritten; any other URL is returned as parsed
+ */
+export function canonicalizeUrl(rawUrl: string): string {
+    let url: URL;
+    try {
+        url = new URL(rawUrl.trim());
+    } catch {
+        return rawUrl.trim();
+    }
+
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+        return url.toString();
+    }
+
+    let host = url.hostname.toLowerCase().replace(MIRROR_SUBDOMAINS, '');
+    if (!PLATFORM_DOMAINS.some(domain => host === domain || host.endsWith(`.${domain}`))) {
+        return url.toString();
+    }
+
+    let pathname = url.pathname.replace(/\/+$/, '') || '/';
+    const params = new URLSearchParams(url.search);
+
+    if (host === 'youtu.be') {
+        host = 'youtube.com';
+        params.set('v', pathname.slice(1));
+        pathname = '/watch';
+    } else if (host === 'youtube.com' || host === 'music.youtube.com') {
+        host = 'youtube.com';
+        const idMatch = YOUTUBE_ID_PATH.exec(pathname);
+        if (idMatch) {
+            params.set('v', idMatch[2]);
+            pathname = '/watch';
+        }
+    } else if (host === 'x.com') {
+        host = 'twitter.com';
+    } else if (host === 'instagram.com') {
+        pathname = pathname.replace(/^\/reels\//, '/reel/');
+    }
+
+    for (const key of Array.from(params.keys())) {
+        if (TRACKING_PARAMS.has(key) || key.startsWith('utm_')) {
+            params.delete(key);
+        }
+    }
+    params.sort();
+
+    const query = params.toString();
+    return `https://${host}${pathname}${query ? `?${query}` : ''}`;
+}
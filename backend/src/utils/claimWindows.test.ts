@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import { OnScreenText } from '../types';
+import { deduplicateClaims, getWindowOnScreenText, splitIntoBatches, splitIntoWindows } from './claimWindows';
+
+describe('splitIntoWindows', () => {
+    it('keeps a short transcript in one window', () => {
+        expect(splitIntoWindows('[00:00] Hello there.\n\n[00:30] Goodbye.', 1000, 100)).toEqual([
+            { text: '[00:00] Hello there.\n\n[00:30] Goodbye.', start: 0 },
+        ]);
+    });
+
+    it('returns one empty window for an empty transcript', () => {
+        expect(splitIntoWindows('', 1000, 100)).toEqual([{ text: '', start: NaN }]);
+    });
+
+    it('starts each window with the end of the previous one', () => {
+        const paragraphs = ['[00:00] aaaaaaaaaa', '[00:30] bbbbbbbbbb', '[01:00] cccccccccc', '[01:30] dddddddddd'];
+        const windows = splitIntoWindows(paragraphs.join('\n\n'), 40, 20);
+
+        expect(windows).toEqual([
+            { text: `${paragraphs[0]}\n\n${paragraphs[1]}`, start: 0 },
+            { text: `${paragraphs[1]}\n\n${paragraphs[2]}`, start: 60 },
+            { text: `${paragraphs[2]}\n\n${paragraphs[3]}`, start: 90 },
+        ]);
+    });
+
+    it('times untimed lines by the last timestamp before them', () => {
+        const windows = splitIntoWindows('[02:00] first paragraph\n\nsecond paragraph\n\nthird paragraph', 40, 0);
+
+        expect(windows.map(window => window.start)).toEqual([120, 120]);
+        expect(windows[1].text).toBe('third paragraph');
+    });
+
+    it('splits a paragraph longer than a window at sentence ends', () => {
+        const windows = splitIntoWindows('One sentence here. Another sentence there. A third one!', 25, 0);
+
+        expect(windows.map(window => window.text)).toEqual(['One sentence here.', 'Another sentence there.', 'A third one!']);
+        expect(windows.every(window => isNaN(window.start))).toBe(true);
+    });
+});
+
+describe('getWindowOnScreenText', () => {
+    const text = (start: number): OnScreenText => ({ start, end: start + 5, text: `at ${start}` });
+    const items = [text(0), text(45), text(70), text(200)];
+
+    it('gives each window the text shown from its own start to the next window', () => {
+        const windows = [{ text: 'a', start: 0 }, { text: 'b', start: 60 }, { text: 'c', start: 120 }];
+
+        expect(getWindowOnScreenText(items, windows, 0)).toEqual([text(0), text(45)]);
+        expect(getWindowOnScreenText(items, windows, 1)).toEqual([text(70)]);
+        expect(getWindowOnScreenText(items, windows, 2)).toEqual([text(200)]);
+    });
+
+    it('gives everything to the first window of an untimed transcript', () => {
+        const windows = [{ text: 'a', start: NaN }, { text: 'b', start: NaN }];
+
+        expect(getWindowOnScreenText(items, windows, 0)).toEqual(items);
+        expect(getWindowOnScreenText(items, windows, 1)).toEqual([]);
+    });
+});
+
+describe('deduplicateClaims', () => {
+    it('merges the same claim found in two overlapping windows, keeping the first reading', () => {
+        const claims = deduplicateClaims([
+            { text: 'The city has 2 million residents today', timestamp: '01:00' },
+            { text: 'The city has 2 million residents', timestamp: '01:05', speaker: 'Speaker 2' },
+        ]);
+
+        expect(claims).toEqual([{ text: 'The city has 2 million residents today', timestamp: '01:00', speaker: 'Speaker 2' }]);
+    });
+
+    it('keeps the first speaker when both readings name one', () => {
+        const claims = deduplicateClaims([
+            { text: 'Taxes went up last year', speaker: 'Speaker 1' },
+            { text: 'Taxes went up last year', speaker: 'Speaker 2' },
+        ]);
+
+        expect(claims).toEqual([{ text: 'Taxes went up last year', speaker: 'Speaker 1' }]);
+    });
+
+    it('keeps claims with different numbers apart', () => {
+        const claims = deduplicateClaims([
+            { text: 'The economy grew 3% in 2020' },
+            { text: 'The economy grew 5% in 2021' },
+        ]);
+
+        expect(claims).toHaveLength(2);
+    });
+
+    it('keeps a claim repeated much later in the video', () => {
+        const claims = deduplicateClaims([
+            { text: 'Vaccines are safe and effective', timestamp: '00:30' },
+            { text: 'Vaccines are safe and effective', timestamp: '10:00' },
+        ]);
+
+        expect(claims).toHaveLength(2);
+    });
+
+    it('keeps differently worded claims', () => {
+        const claims = deduplicateClaims([
+            { text: 'The bridge was built in record time' },
+            { text: 'Crime fell across the whole country' },
+        ]);
+
+        expect(claims).toHaveLength(2);
+    });
+});
+
+describe('splitIntoBatches', () => {
+    it('groups indexes into consecutive batches with a shorter last batch', () => {
+        expect(splitIntoBatches(7, 3)).toEqual([[0, 1, 2], [3, 4, 5], [6]]);
+    });
+
+    it('returns a single batch when everything fits', () => {
+        expect(splitIntoBatches(2, 5)).toEqual([[0, 1]]);
+    });
+
+    it('returns no batches for no items', () => {
+        expect(splitIntoBatches(0, 5)).toEqual([]);
+    });
+});
@@ -0,0 +1,134 @@
+import { OnScreenText } from '../types';
+import { parseTimestamp } from './transcript';
+
+// A stretch of the transcript sent to one extraction request
+export interface TranscriptWindow {
+    text: string;
+    start: number; // seconds of the window's first own line (not the overlap), NaN for an untimed transcript
+}
+
+// What deduplication reads of an extracted claim
+export interface WindowClaim {
+    text: string;
+    timestamp?: string | null;
+    speaker?: string | null;
+}
+
+// Leading "[MM:SS]" of a transcript paragraph
+const PARAGRAPH_TIMESTAMP = /^\[(\d+(?::\d{2}){1,2})\]/;
+
+// Share of words two claims must have in common to be the same claim found in two overlapping windows
+const SAME_CLAIM_RATIO = 0.6;
+
+// Duplicates are only merged when made this close together - a claim repeated later in the video is checked again
+const SAME_CLAIM_SECONDS = 120;
+
+/**
+ * Split a transcript into windows of at most maxChars, each starting with the last overlapChars of the previous one
+ * so a claim cut at a window border is read whole in one of them; paragraphs longer than a window are split at sentences
+ */
+export function splitIntoWindows(transcription: string, maxChars: number, overlapChars: number): TranscriptWindow[] {
+    const lines = transcription.replace(/\r/g, '').split('\n').map(line => line.trim()).filter(Boolean)
+        .flatMap(line => line.length <= maxChars ? [line] : line.split(/(?<=[.!?])\s+/));
+
+    // Untimed lines belong to the last timestamp before them
+    let time = NaN;
+    const units = lines.map(text => {
+        const match = PARAGRAPH_TIMESTAMP.exec(text);
+        if (match) time = parseTimestamp(match[1]);
+        return { text, time };
+    });
+
+    const windows: TranscriptWindow[] = [];
+    let current: typeof units = [];
+    let ownStart = 0; // index in current of the first line that is not overlap
+    let length = 0;
+
+    for (const unit of units) {
+        if (current.length > ownStart && length + unit.text.length > maxChars) {
+            windows.push({ text: current.map(u => u.text).join('\n\n'), start: current[ownStart].time });
+
+            const overlap: typeof units = [];
+            let overlapLength = 0;
+            for (let i = current.length - 1; i >= 0 && overlapLength + current[i].text.length <= overlapChars; i--) {
+                overlap.unshift(current[i]);
+                overlapLength += current[i].text.length;
+            }
+            current = overlap;
+            ownStart = overlap.length;
+            length = overlapLength;
+        }
+        current.push(unit);
+        length += unit.text.length;
+    }
+    if (current.length > ownStart || windows.length === 0) {
+        windows.push({ text: current.map(u => u.text).join('\n\n'), start: current[ownStart]?.time ?? NaN });
+    }
+
+    return windows;
+}
+
+/**
+ * On-screen text shown during a window's own part - all of it goes to the first window of an untimed transcript
+ */
+export function getWindowOnScreenText(onScreenText: OnScreenText[], windows: TranscriptWindow[], index: number): OnScreenText[] {
+    if (windows.some(window => isNaN(window.start))) {
+        return index === 0 ? onScreenText : [];
+    }
+    const from = index === 0 ? -Infinity : windows[index].start;
+    const to = index === windows.length - 1 ? Infinity : windows[index + 1].start;
+    return onScreenText.filter(item => item.start >= from && item.start < to);
+}
+
+// Words of a claim without case and punctuation
+function toWords(text: string): Set<string> {
+    return new Set(text.toLowerCase().split(/\s+/).map(word => word.replace(/[^\p{L}\p{N}]/gu, '')).filter(Boolean));
+}
+
+/**
+ * Check if two extracted claims are the same claim - the same statement worded a little differently, made at about the same time
+ * Claims with different numbers are different claims however similar the wording ("grew 3% in 2020" / "grew 5% in 2021")
+ */
+function isSameClaim(a: WindowClaim, b: WindowClaim): boolean {
+    if (a.timestamp && b.timestamp) {
+        const distance = Math.abs(parseTimestamp(a.timestamp) - parseTimestamp(b.timestamp));
+        if (distance > SAME_CLAIM_SECONDS) return false;
+    }
+
+    const wordsA = toWords(a.text);
+    const wordsB = toWords(b.text);
+    const numbersA = [...wordsA].filter(word => /\d/.test(word)).sort().join(' ');
+    const numbersB = [...wordsB].filter(word => /\d/.test(word)).sort().join(' ');
+    if (numbersA !== numbersB) return false;
+
+    const shared = [...wordsA].filter(word => wordsB.has(word)).length;
+    const total = new Set([...wordsA, ...wordsB]).size;
+    return total > 0 && shared / total >= SAME_CLAIM_RATIO;
+}
+
+/**
+ * Drop claims found again in the overlap of the next window - the first reading is kept
+ */
+export function deduplicateClaims<T extends WindowClaim>(claims: T[]): T[] {
+    const unique: T[] = [];
+    for (const claim of claims) {
+        const existing = unique.find(other => isSameClaim(other, claim));
+        if (!existing) {
+            unique.push(claim);
+        } else if (!existing.speaker && claim.speaker) {
+            existing.speaker = claim.speaker;
+        }
+    }
+    return unique;
+}
+
+/**
+ * Group item indexes into consecutive batches of at most batchSize
+ */
+export function splitIntoBatches(count: number, batchSize: number): number[][] {
+    const batches: number[][] = [];
+    for (let start = 0; start < count; start += batchSize) {
+        batches.push(Array.from({ length: Math.min(batchSize, count - start) }, (_, offset) => start + offset));
+    }
+    return batches;
+}
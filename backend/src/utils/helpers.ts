@@ -30,59 +30,36 @@ export function cleanupTempFiles(videoId: string): void {
 }
 
 /**
- * Extract platform from URL
+ * Format duration in seconds to readable string
  */
-export function extractPlatform(url: string): string {
-    try {
-        const urlObj = new URL(url);
-        const hostname = urlObj.hostname.replace('www.', '').toLowerCase();
-
-        if (hostname.includes('youtube') || hostname.includes('youtu.be')) {
-            return 'YouTube';
-        } else if (hostname.includes('facebook') || hostname.includes('fb.watch')) {
-            return 'Facebook';
-        } else if (hostname.includes('instagram')) {
-            return 'Instagram';
-        } else if (hostname.includes('twitter') || hostname.includes('x.com')) {
-            return 'Twitter/X';
-        } else if (hostname.includes('tiktok')) {
-            return 'TikTok';
-        }
+export function formatDuration(seconds: number): string {
+    const hours = Math.floor(seconds / 3600);
+    const minutes = Math.floor((seconds % 3600) / 60);
+    const secs = Math.floor(seconds % 60);
 
-        return 'Unknown';
-    } catch {
-        return 'Unknown';
+    if (hours > 0) {
+        return `${hours}:${minutes.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
     }
+    return `${minutes}:${secs.toString().padStart(2, '0')}`;
 }
 
 /**
- * Validate URL is from supported platform
+ * Format a byte count to a readable string (e.g. 12.3 MB)
  */
-export function isValidPlatformUrl(url: string): boolean {
-    try {
-        const urlObj = new URL(url);
-        const hostname = urlObj.hostname.replace('www.', '').toLowerCase();
-
-        return config.supportedPlatforms.some(platform =>
-            hostname.includes(platform.replace('www.', ''))
-        );
-    } catch {
-        return false;
-    }
+export function formatBytes(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+    return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
 }
 
 /**
- * Format duration in seconds to readable string
+ * Format seconds to MM:SS timestamp
  */
-export function formatDuration(seconds: number): string {
-    const hours = Math.floor(seconds / 3600);
-    const minutes = Math.floor((seconds % 3600) / 60);
+export function formatTimestamp(seconds: number): string {
+    const mins = Math.floor(seconds / 60);
     const secs = Math.floor(seconds % 60);
-
-    if (hours > 0) {
-        return `${hours}:${minutes.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
-    }
-    return `${minutes}:${secs.toString().padStart(2, '0')}`;
+    return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
 }
 
 /**
@@ -91,3 +68,25 @@ export function formatDuration(seconds: number): string {
 export function sleep(ms: number): Promise<void> {
     return new Promise(resolve => setTimeout(resolve, ms));
 }
+
+/**
+ * Map items with at most `limit` promises running at once, keeping result order
+ */
+export async function mapWithConcurrency<T, R>(
+    items: T[],
+    limit: number,
+    fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+    const results: R[] = new Array(items.length);
+    let next = 0;
+
+    const worker = async () => {
+        while (next < items.length) {
+            const index = next++;
+            results[index] = await fn(items[index], index);
+        }
+    };
+
+    await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker));
+    return results;
+}
@@ -0,0 +1,45 @@
+import { config } from '../config/config';
+
+// Spoken language value that asks the transcriber to detect the language
+export const AUTO_LANGUAGE = 'auto';
+
+// ISO 639-1/639-3 code with an optional region or script: "ar", "pt-BR", "zh-Hans"
+const LANGUAGE_CODE = /^[a-z]{2,3}(-[A-Za-z0-9]{2,8})*$/;
+
+let displayNames: Intl.DisplayNames | undefined;
+
+/**
+ * Check a spoken language value from a request ('auto' or a language code)
+ */
+export function isValidSpokenLanguage(value: string): boolean {
+    return value === AUTO_LANGUAGE || LANGUAGE_CODE.test(value);
+}
+
+/**
+ * Primary subtag of a language code: "en-US" -> "en", "en-orig" -> "en"
+ */
+function baseLanguage(code: string): string {
+    return code.toLowerCase().split('-')[0];
+}
+
+/**
+ * Check if two language codes name the same language, ignoring region
+ */
+export function isSameLanguage(a: string | undefined, b: string | undefined): boolean {
+    return !!a && !!b && baseLanguage(a) === baseLanguage(b);
+}
+
+/**
+ * English name of a language code - supported languages first, then the runtime's ICU data
+ */
+export function getLanguageName(code: string): string {
+    const supported = config.supportedLanguages.find(l => l.code === code || l.code === baseLanguage(code));
+    if (supported) return supported.name;
+
+    try {
+        displayNames = displayNames || new Intl.DisplayNames(['en'], { type: 'language' });
+        return displayNames.of(code) || code;
+    } catch {
+        return code;
+    }
+}
@@ -0,0 +1,129 @@
+import dns, { LookupAddress, LookupOptions } from 'dns';
+import { lookup } from 'dns/promises';
+import { BlockList, isIP } from 'net';
+import { Agent } from 'undici';
+
+/**
+ * The URL points at this server's own network (loopback, private or link-local address),
+ * uses another scheme than http(s) or a non-default port
+ */
+export class UnsafeUrlError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'UnsafeUrlError';
+    }
+}
+
+// Redirects followed before giving up
+const MAX_REDIRECTS = 5;
+
+// Addresses a URL taken from user input or model output must never reach
+const blockedAddresses = new BlockList();
+[
+    ['0.0.0.0', 8],       // "this network"
+    ['10.0.0.0', 8],      // private
+    ['100.64.0.0', 10],   // carrier-grade NAT
+    ['127.0.0.0', 8],     // loopback
+    ['169.254.0.0', 16],  // link-local, cloud metadata (169.254.169.254)
+    ['172.16.0.0', 12],   // private
+    ['192.0.0.0', 24],    // IETF protocol assignments
+    ['192.168.0.0', 16],  // private
+    ['198.18.0.0', 15],   // benchmarking
+    ['224.0.0.0', 4],     // multicast
+    ['240.0.0.0', 4],     // reserved, broadcast
+].forEach(([address, prefix]) => blockedAddresses.addSubnet(address as string, prefix as number, 'ipv4'));
+[
+    ['::', 128],          // unspecified
+    ['::1', 128],         // loopback
+    ['fc00::', 7],        // unique local
+    ['fe80::', 10],       // link-local
+    ['ff00::', 8],        // multicast
+].forEach(([address, prefix]) => blockedAddresses.addSubnet(address as string, prefix as number, 'ipv6'));
+
+/**
+ * Check if an IP address is on the public internet
+ */
+export function isPublicAddress(address: string): boolean {
+    // IPv4-mapped IPv6 (::ffff:127.0.0.1) is checked as the IPv4 address it carries
+    const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+    if (mapped) return isPublicAddress(mapped[1]);
+
+    const family = isIP(address);
+    if (family === 0) return false;
+    return !blockedAddresses.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Reject URLs that could reach internal services: only http(s) on the default port,
+ * and every address the host name resolves to must be public
+ */
+export async function assertPublicUrl(url: URL): Promise<void> {
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+        throw new UnsafeUrlError(`Only http and https URLs are allowed, got ${url.protocol}`);
+    }
+    if (url.port !== '') {
+        throw new UnsafeUrlError(`Only the default port is allowed, got ${url.port}`);
+    }
+
+    const hostname = url.hostname.replace(/^\[|\]$/g, '');
+    const addresses = isIP(hostname) ? [{ address: hostname }] : await lookup(hostname, { all: true, verbatim: true });
+    if (addresses.length === 0 || addresses.some(({ address }) => !isPublicAddress(address))) {
+        throw new UnsafeUrlError(`${url.hostname} resolves to a private or local address`);
+    }
+}
+
+type LookupCallback = (err: NodeJS.ErrnoException | null, address: string | LookupAddress[], family?: number) => void;
+
+/**
+ * dns.lookup for the connections safeFetch opens - the addresses a socket connects to are checked,
+ * so a host name cannot resolve to a public address for assertPublicUrl and a private one for the connection
+ */
+function publicLookup(hostname: string, options: LookupOptions, callback: LookupCallback): void {
+    dns.lookup(hostname, { ...options, all: true }, (err, addresses) => {
+        if (err) {
+            callback(err, []);
+            return;
+        }
+        if (addresses.length === 0 || addresses.some(({ address }) => !isPublicAddress(address))) {
+            callback(new UnsafeUrlError(`${hostname} resolves to a private or local address`), []);
+            return;
+        }
+        if (options.all) {
+            callback(null, addresses);
+        } else {
+            callback(null, addresses[0].address, addresses[0].family);
+        }
+    });
+}
+
+// Resolves host names with publicLookup - IP literals are not looked up, assertPublicUrl checks those
+const publicAgent = new Agent({ connect: { lookup: publicLookup } });
+
+/**
+ * fetch() for URLs from outside: the URL and every redirect target are checked with assertPublicUrl first,
+ * and the connection only goes to an address that passed the same check
+ * The final response's url is the last hop
+ */
+export async function safeFetch(url: string | URL, init: RequestInit = {}): Promise<Response> {
+    let current = new URL(url);
+
+    for (let redirects = 0; ; redirects++) {
+        await assertPublicUrl(current);
+        const response = await fetch(current, { ...init, redirect: 'manual', dispatcher: publicAgent }).catch(err => {
+            // fetch puts connection errors on the cause - a host that now resolves to a private address fails like assertPublicUrl
+            const cause = (err as { cause?: unknown }).cause;
+            throw cause instanceof UnsafeUrlError ? cause : err;
+        });
+
+        const location = response.headers.get('location');
+        if (response.status < 300 || response.status >= 400 || !location) {
+            return response;
+        }
+
+        await response.body?.cancel();
+        if (redirects >= MAX_REDIRECTS) {
+            throw new Error(`Too many redirects from ${url}`);
+        }
+        current = new URL(location, current);
+    }
+}
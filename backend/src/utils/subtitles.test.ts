@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { cuesToSegments, parseSubtitles, segmentsToSrt, segmentsToVtt } from './subtitles';
+
+describe('parseSubtitles', () => {
+    it('reads WebVTT cues without headers, notes, cue settings or markup', () => {
+        const vtt = [
+            'WEBVTT',
+            'Kind: captions',
+            '',
+            'NOTE written by hand',
+            '',
+            '00:00:01.000 --> 00:00:03.500 align:start position:0%',
+            '<00:00:01.000><c>Hello</c> <i>world</i> &amp; friends',
+            '',
+            'intro',
+            '00:00:04.000 --> 00:00:05.000',
+            '{\\an8}Second&nbsp;line',
+            '',
+            '00:00:06.000 --> 00:00:07.000',
+            '<c></c>',
+        ].join('\n');
+
+        expect(parseSubtitles(vtt)).toEqual([
+            { start: 1, end: 3.5, text: 'Hello world & friends' },
+            { start: 4, end: 5, text: 'Second line' },
+        ]);
+    });
+
+    it('reads SRT cues with comma decimals and several lines', () => {
+        const srt = [
+            '1',
+            '00:00:01,500 --> 00:00:02,000',
+            'First line',
+            'second line',
+            '',
+            '2',
+            '01:00:02,500 --> 01:00:04,000',
+            '<b>Bold</b>',
+            '',
+        ].join('\r\n');
+
+        expect(parseSubtitles(srt)).toEqual([
+            { start: 1.5, end: 2, text: 'First line\nsecond line' },
+            { start: 3602.5, end: 3604, text: 'Bold' },
+        ]);
+    });
+});
+
+describe('cuesToSegments', () => {
+    it('drops lines repeated from the previous cue in rolling captions', () => {
+        expect(cuesToSegments([
+            { start: 0, end: 2, text: 'hello there' },
+            { start: 2, end: 4, text: 'hello there\ngeneral kenobi' },
+            { start: 4, end: 6, text: 'general kenobi' },
+            { start: 6, end: 8, text: 'you are\na bold one' },
+        ])).toEqual([
+            { start: 0, end: 2, text: 'hello there' },
+            { start: 2, end: 4, text: 'general kenobi' },
+            { start: 6, end: 8, text: 'you are a bold one' },
+        ]);
+    });
+});
+
+describe('segmentsToSrt', () => {
+    it('numbers cues, names speakers and gives empty cues a second', () => {
+        const srt = segmentsToSrt([
+            { start: 1.5, end: 3, text: 'Hi', speaker: 'Speaker 1' },
+            { start: 3723.25, end: 3723.25, text: 'Bye' },
+        ], { 'Speaker 1': 'Alice' });
+
+        expect(srt).toBe(
+            '1\n00:00:01,500 --> 00:00:03,000\nAlice: Hi\n' +
+            '\n' +
+            '2\n01:02:03,250 --> 01:02:04,250\nBye\n'
+        );
+    });
+});
+
+describe('segmentsToVtt', () => {
+    it('escapes markup and writes speakers as voice tags', () => {
+        const vtt = segmentsToVtt([{ start: 0, end: 2, text: 'a < b & c', speaker: 'Speaker 2' }]);
+
+        expect(vtt).toBe('WEBVTT\n\n00:00:00.000 --> 00:00:02.000\n<v Speaker 2>a &lt; b &amp; c\n');
+    });
+
+    it('reads back as the same cues', () => {
+        const segments = [
+            { start: 0.25, end: 2, text: 'Prices rose by 5% & more' },
+            { start: 2, end: 4.75, text: 'Then they fell' },
+        ];
+
+        expect(parseSubtitles(segmentsToVtt(segments))).toEqual(segments);
+    });
+});
@@ -0,0 +1,125 @@
+import { TranscriptSegment } from '../types';
+import { parseTimestamp } from './transcript';
+
+export interface SubtitleCue {
+    start: number; // in seconds
+    end: number;   // in seconds
+    text: string;
+}
+
+/**
+ * Strip markup from a cue line: inline timings (<00:00:01.000>), <c>, <i>, {\an8} etc.
+ */
+function cleanCueText(line: string): string {
+    return line
+        .replace(/<[^>]*>/g, '')
+        .replace(/\{\\[^}]*\}/g, '')
+        .replace(/&nbsp;/g, ' ')
+        .replace(/&amp;/g, '&')
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/\s+/g, ' ')
+        .trim();
+}
+
+/**
+ * Parse WebVTT or SRT subtitle content into cues
+ * Works for both formats since they only differ in headers and the decimal separator
+ */
+export function parseSubtitles(content: string): SubtitleCue[] {
+    const cues: SubtitleCue[] = [];
+    const blocks = content.replace(/\r/g, '').split(/\n{2,}/);
+
+    for (const block of blocks) {
+        const lines = block.split('\n');
+        const timingIndex = lines.findIndex(line => line.includes('-->'));
+        if (timingIndex === -1) continue; // WEBVTT header, NOTE, STYLE, ...
+
+        const [startRaw, endRaw] = lines[timingIndex].split('-->');
+        const start = parseTimestamp(startRaw);
+        // Drop cue settings after the end time ("00:00:05.000 align:start position:0%")
+        const end = parseTimestamp(endRaw.trim().split(/\s+/)[0]);
+        if (isNaN(start) || isNaN(end)) continue;
+
+        const text = lines
+            .slice(timingIndex + 1)
+            .map(cleanCueText)
+            .filter(line => line.length > 0)
+            .join('\n');
+
+        if (text) {
+            cues.push({ start, end, text });
+        }
+    }
+
+    return cues;
+}
+
+/**
+ * Convert cues into transcript segments
+ * Auto-generated captions repeat the previous line in every cue (rolling captions), so repeated lines are dropped
+ */
+export function cuesToSegments(cues: SubtitleCue[]): TranscriptSegment[] {
+    const segments: TranscriptSegment[] = [];
+    let lastLine = '';
+
+    for (const cue of cues) {
+        const lines: string[] = [];
+        for (const line of cue.text.split('\n')) {
+            if (line === lastLine) continue;
+            lastLine = line;
+            lines.push(line);
+        }
+
+        if (lines.length > 0) {
+            segments.push({ start: cue.start, end: cue.end, text: lines.join(' ') });
+        }
+    }
+
+    return segments;
+}
+
+/**
+ * Format seconds as a subtitle timestamp: 00:01:02,345 (SRT) or 00:01:02.345 (WebVTT)
+ */
+function formatCueTimestamp(seconds: number, decimalSeparator: ',' | '.'): string {
+    const totalMs = Math.max(0, Math.round(seconds * 1000));
+    const hours = Math.floor(totalMs / 3600000);
+    const minutes = Math.floor((totalMs % 3600000) / 60000);
+    const secs = Math.floor((totalMs % 60000) / 1000);
+    const ms = totalMs % 1000;
+    const pad = (value: number, length: number = 2) => value.toString().padStart(length, '0');
+    return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${decimalSeparator}${pad(ms, 3)}`;
+}
+
+/**
+ * Cue end time - players skip cues that end where they start
+ */
+function cueEnd(segment: TranscriptSegment): number {
+    return segment.end > segment.start ? segment.end : segment.start + 1;
+}
+
+/**
+ * Render segments as SRT subtitles - speakers are named at the start of the cue
+ */
+export function segmentsToSrt(segments: TranscriptSegment[], speakerNames: Record<string, string> = {}): string {
+    return segments.map((segment, index) => {
+        const speaker = segment.speaker ? `${speakerNames[segment.speaker] || segment.speaker}: ` : '';
+        return `${index + 1}\n` +
+            `${formatCueTimestamp(segment.start, ',')} --> ${formatCueTimestamp(cueEnd(segment), ',')}\n` +
+            `${speaker}${segment.text}\n`;
+    }).join('\n');
+}
+
+/**
+ * Render segments as WebVTT subtitles - speakers become <v> voice tags
+ */
+export function segmentsToVtt(segments: TranscriptSegment[], speakerNames: Record<string, string> = {}): string {
+    const escape = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+    const cues = segments.map(segment => {
+        const voice = segment.speaker ? `<v ${escape(speakerNames[segment.speaker] || segment.speaker)}>` : '';
+        return `${formatCueTimestamp(segment.start, '.')} --> ${formatCueTimestamp(cueEnd(segment), '.')}\n` +
+            `${voice}${escape(segment.text)}\n`;
+    });
+    return ['WEBVTT\n', ...cues].join('\n');
+}
@@ -0,0 +1,248 @@
+import { TimeRange, TranscriptSegment } from '../types';
+import { formatTimestamp } from './helpers';
+
+// Start a new [MM:SS] paragraph after this many seconds when rendering segments as text
+const PARAGRAPH_SECONDS = 30;
+
+// "Speaker 2: text" - labels the model puts in front of a segment when several people talk
+const SPEAKER_PREFIX = /^(speaker\s*\d+)\s*:\s*/i;
+
+// "[Music]", "(upbeat music)", "[singing]" - markers transcribers and captions put on non-speech audio
+const MUSIC_MARKER = /^[[(]\s*[^\])]*\b(?:music|singing|song|instrumental)\b[^\])]*[\])]$/i;
+
+// Lyrics are written between note symbols: "♪ lyrics ♪"
+const MUSIC_NOTES = /^[♪♫🎵🎶]|[♪♫🎵🎶]$/u;
+
+// Music segments closer than this are reported as one range
+const MUSIC_GAP_SECONDS = 2;
+
+// "[01:02-01:07] text", "[1:02:03 - 1:02:09] text" or "[01:02] text"
+const TIMED_LINE = /^\s*\[\s*((?:\d+:)?\d{1,2}:\d{2}(?:[.,]\d+)?)\s*(?:(?:-|–|—|-->)\s*((?:\d+:)?\d{1,2}:\d{2}(?:[.,]\d+)?))?\s*\]\s*(.*)$/;
+
+/**
+ * Parse a timestamp (01:02, 00:01:02.345 or 00:01:02,345) into seconds
+ */
+export function parseTimestamp(value: string): number {
+    const parts = value.trim().replace(',', '.').split(':').map(Number);
+    return parts.reduce((total, part) => total * 60 + part, 0);
+}
+
+/**
+ * Parse model output with one "[start-end] text" line per segment into segments
+ * Lines without a timestamp continue the previous segment; output without any timestamps becomes one segment
+ */
+export function parseTimedTranscript(text: string, duration: number): TranscriptSegment[] {
+    const segments: TranscriptSegment[] = [];
+
+    for (const rawLine of text.replace(/\r/g, '').split('\n')) {
+        const line = rawLine.trim();
+        if (!line) continue;
+
+        const match = TIMED_LINE.exec(line);
+        if (match) {
+            const speakerMatch = SPEAKER_PREFIX.exec(match[3]);
+            segments.push({
+                start: parseTimestamp(match[1]),
+                end: match[2] ? parseTimestamp(match[2]) : NaN,
+                text: match[3].slice(speakerMatch ? speakerMatch[0].length : 0).trim(),
+                speaker: speakerMatch ? normalizeSpeakerLabel(speakerMatch[1]) : undefined,
+            });
+        } else if (segments.length > 0) {
+            const previous = segments[segments.length - 1];
+            previous.text = previous.text ? `${previous.text} ${line}` : line;
+        } else {
+            segments.push({ start: 0, end: NaN, text: line });
+        }
+    }
+
+    // Segments with only a start time run until the next one starts
+    segments.forEach((segment, index) => {
+        if (isNaN(segment.end)) {
+            const next = segments[index + 1];
+            segment.end = next ? next.start : Math.max(duration, segment.start);
+        }
+        segment.end = Math.max(segment.end, segment.start);
+    });
+
+    return segments.filter(segment => segment.text.length > 0);
+}
+
+/**
+ * Normalize "speaker2" / "SPEAKER 2" to "Speaker 2"
+ */
+function normalizeSpeakerLabel(label: string): string {
+    return `Speaker ${label.replace(/\D/g, '')}`;
+}
+
+/**
+ * Speaker labels in order of first appearance
+ */
+export function getSpeakerLabels(segments: TranscriptSegment[]): string[] {
+    const labels: string[] = [];
+    for (const segment of segments) {
+        if (segment.speaker && !labels.includes(segment.speaker)) {
+            labels.push(segment.speaker);
+        }
+    }
+    return labels;
+}
+
+/**
+ * Map a speaker name or label the model returned back to the stable label
+ */
+export function resolveSpeakerLabel(value: string | undefined, speakerNames: Record<string, string> = {}): string | undefined {
+    if (!value) return undefined;
+
+    const trimmed = value.trim();
+    const renamed = Object.entries(speakerNames).find(([, name]) => name.toLowerCase() === trimmed.toLowerCase());
+    if (renamed) return renamed[0];
+
+    const labelMatch = /^speaker\s*\d+$/i.exec(trimmed);
+    return labelMatch ? normalizeSpeakerLabel(trimmed) : trimmed;
+}
+
+/**
+ * Move segments of a chunk onto the absolute timeline of the full audio
+ */
+export function offsetSegments(segments: TranscriptSegment[], offset: number, maxEnd: number): TranscriptSegment[] {
+    return segments.map(segment => ({
+        ...segment,
+        start: Math.min(segment.start + offset, maxEnd),
+        end: Math.min(segment.end + offset, maxEnd),
+    }));
+}
+
+// A chunk transcribed with extra audio on both sides - only [keepStart, keepEnd) belongs to it
+export interface OverlappingChunk {
+    keepStart: number;
+    keepEnd: number;
+    segments: TranscriptSegment[];
+}
+
+// Shortest run of repeated words treated as the same speech transcribed twice
+const MIN_REPEATED_WORDS = 3;
+
+// Words of a segment without case and punctuation, so "Hello," and "hello" match
+function toWords(text: string): string[] {
+    return text.trim().split(/\s+/).map(word => word.toLowerCase().replace(/[^\p{L}\p{N}]/gu, ''));
+}
+
+/**
+ * Drop the start of a segment that repeats the end of the previous one
+ * (timestamps of two chunks drift a little, so the same words can land on both sides of a cut)
+ */
+function trimRepeatedStart(previous: TranscriptSegment, next: TranscriptSegment): TranscriptSegment | null {
+    const previousWords = toWords(previous.text);
+    const nextWords = toWords(next.text);
+
+    // Whole segment already transcribed
+    if (` ${previousWords.join(' ')} `.includes(` ${nextWords.join(' ')} `)) return null;
+
+    // Longest suffix of the previous segment that the next one starts with
+    for (let length = Math.min(previousWords.length, nextWords.length); length >= MIN_REPEATED_WORDS; length--) {
+        if (previousWords.slice(-length).join(' ') === nextWords.slice(0, length).join(' ')) {
+            const text = next.text.trim().split(/\s+/).slice(length).join(' ');
+            return text ? { ...next, text } : null;
+        }
+    }
+
+    return next;
+}
+
+/**
+ * Stitch chunks transcribed with overlap into one timeline
+ * Each chunk keeps the segments that start inside its own range, and text repeated across a cut is removed
+ */
+export function stitchOverlappingChunks(chunks: OverlappingChunk[]): TranscriptSegment[] {
+    const stitched: TranscriptSegment[] = [];
+
+    for (const chunk of [...chunks].sort((a, b) => a.keepStart - b.keepStart)) {
+        const owned = chunk.segments
+            .filter(segment => segment.start >= chunk.keepStart && segment.start < chunk.keepEnd)
+            .sort((a, b) => a.start - b.start);
+
+        const previous = stitched[stitched.length - 1];
+        // Only compare across a cut between neighbouring chunks - a failed chunk in between leaves a real gap
+        if (previous && owned.length > 0 && previous.end >= chunk.keepStart - 1) {
+            const first = trimRepeatedStart(previous, owned[0]);
+            owned.splice(0, 1, ...(first ? [first] : []));
+        }
+
+        stitched.push(...owned);
+    }
+
+    return stitched;
+}
+
+/**
+ * Check if a segment is music or singing rather than speech
+ */
+export function isMusicText(text: string): boolean {
+    const trimmed = text.trim();
+    return MUSIC_MARKER.test(trimmed) || MUSIC_NOTES.test(trimmed);
+}
+
+/**
+ * Flag music and singing segments so they are shown as [Music] and left out of the fact-check
+ */
+export function markMusicSegments(segments: TranscriptSegment[]): TranscriptSegment[] {
+    return segments.map(segment => ({ ...segment, music: isMusicText(segment.text) || undefined }));
+}
+
+/**
+ * Time ranges covered by music segments, neighbouring segments merged
+ */
+export function getMusicRanges(segments: TranscriptSegment[]): TimeRange[] {
+    const ranges: TimeRange[] = [];
+
+    for (const segment of segments.filter(s => s.music)) {
+        const previous = ranges[ranges.length - 1];
+        if (previous && segment.start - previous.end <= MUSIC_GAP_SECONDS) {
+            previous.end = Math.max(previous.end, segment.end);
+        } else {
+            ranges.push({ start: segment.start, end: segment.end });
+        }
+    }
+
+    return ranges;
+}
+
+/**
+ * Render segments as transcript text with a [MM:SS] marker every 30 seconds
+ * Speakers are named at every change of speaker (and at each new paragraph), using renamed labels when set
+ * Music segments are written as [Music]
+ */
+export function segmentsToText(segments: TranscriptSegment[], speakerNames: Record<string, string> = {}): string {
+    const paragraphs: string[] = [];
+    let current: string[] = [];
+    let paragraphStart = -Infinity;
+    let lastSpeaker: string | undefined;
+
+    for (const segment of segments) {
+        if (segment.start - paragraphStart >= PARAGRAPH_SECONDS) {
+            if (current.length > 0) {
+                paragraphs.push(current.join(' '));
+            }
+            paragraphStart = segment.start;
+            current = [`[${formatTimestamp(segment.start)}]`];
+            lastSpeaker = undefined;
+        }
+        // Lyrics are not rendered - the fact-checker only sees that music plays here
+        if (segment.music) {
+            current.push('[Music]');
+            lastSpeaker = undefined;
+            continue;
+        }
+        if (segment.speaker && segment.speaker !== lastSpeaker) {
+            current.push(`${speakerNames[segment.speaker] || segment.speaker}:`);
+        }
+        lastSpeaker = segment.speaker;
+        current.push(segment.text);
+    }
+
+    if (current.length > 0) {
+        paragraphs.push(current.join(' '));
+    }
+
+    return paragraphs.join('\n\n');
+}
@@ -9,6 +9,317 @@ type AppState =
     | { phase: 'results'; job: api.VideoJob }
     | { phase: 'error'; message: string };
 
+function formatBytes(bytes: number): string {
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+// Download speed, size and ETA shown under the progress bar
+function TransferDetails({ transfer }: { transfer: api.DownloadProgress }) {
+    const parts: string[] = [];
+    if (transfer.totalBytes) {
+        parts.push(`${formatBytes(transfer.downloadedBytes || 0)} / ${formatBytes(transfer.totalBytes)}`);
+    }
+    if (transfer.speedBytesPerSecond) {
+        parts.push(`${formatBytes(transfer.speedBytesPerSecond)}/s`);
+    }
+    if (transfer.etaSeconds !== undefined) {
+        const minutes = Math.floor(transfer.etaSeconds / 60);
+        const seconds = (transfer.etaSeconds % 60).toString().padStart(2, '0');
+        parts.push(`${minutes}:${seconds} left`);
+    }
+
+    return (
+        <p className="text-zinc-600 text-sm mt-2">
+            Downloading {transfer.percent.toFixed(0)}%{parts.length > 0 && ` · ${parts.join(' · ')}`}
+        </p>
+    );
+}
+
+function formatClock(totalSeconds: number): string {
+    const minutes = Math.floor(totalSeconds / 60);
+    const seconds = Math.floor(totalSeconds % 60).toString().padStart(2, '0');
+    return `${minutes}:${seconds}`;
+}
+
+// Warning for parts of the audio that could not be transcribed
+function MissingRangesNotice({ ranges, onRetry }: { ranges: api.MissingRange[]; onRetry?: () => void }) {
+    return (
+        <div className="bg-amber-500/10 border border-amber-500/30 rounded-2xl p-4 text-sm text-amber-300">
+            <p className="font-semibold">Transcript incomplete</p>
+            <p className="text-amber-200/80 mt-1">
+                These parts could not be transcribed and are not fact-checked:{' '}
+                {ranges.map(r => `${formatClock(r.start)}–${formatClock(r.end)}`).join(', ')}
+            </p>
+            {onRetry && (
+                <button onClick={onRetry} className="mt-2 text-amber-200 hover:text-amber-100 underline">
+                    Retry missing parts
+                </button>
+            )}
+        </div>
+    );
+}
+
+// Claims read from captions, charts or screenshots rather than heard
+function OnScreenBadge({ claim }: { claim: api.Claim }) {
+    return (
+        <span className="text-xs text-sky-400">
+            On screen{claim.frameTimestamp !== undefined && ` at ${formatClock(claim.frameTimestamp)}`}
+        </span>
+    );
+}
+
+const TIER_STYLES: Record<api.SourceLink['tier'], string> = {
+    trusted: 'bg-emerald-500/15 hover:bg-emerald-500/25 text-emerald-300',
+    neutral: 'bg-blue-500/15 hover:bg-blue-500/25 text-blue-300',
+    low: 'bg-amber-500/15 hover:bg-amber-500/25 text-amber-300',
+};
+
+// A cited link, colored by the credibility of its domain - links that could not be checked are marked
+function SourceChip({ source }: { source: api.SourceLink }) {
+    return (
+        <a
+            href={source.url}
+            target="_blank"
+            rel="noopener noreferrer"
+            title={[source.title, `${source.tier} source`, !source.verified && 'not verified'].filter(Boolean).join(' · ')}
+            className={`inline-flex items-center gap-1 text-xs px-3 py-1.5 rounded-lg transition-colors ${TIER_STYLES[source.tier]}`}
+        >
+            {source.verified ? '🔗' : '⚠️'} {source.domain}
+        </a>
+    );
+}
+
+const STANCE_STYLES: Record<NonNullable<api.EvidencePassage['stance']>, string> = {
+    supports: 'bg-emerald-500/20 text-emerald-300',
+    refutes: 'bg-red-500/20 text-red-300',
+    neutral: 'bg-zinc-700 text-zinc-300',
+};
+
+// How a retrieved passage bears on the claim, as judged by the fact-check
+function EvidenceStanceBadge({ stance }: { stance: NonNullable<api.EvidencePassage['stance']> }) {
+    return <span className={`px-1.5 py-0.5 rounded ${STANCE_STYLES[stance]}`}>{stance}</span>;
+}
+
+// Music is marked in the transcript and skipped by the fact-check; silence was never sent for transcription
+function NonSpeechNotice({ job }: { job: api.VideoJob }) {
+    const musicSegments = (job.segments || []).filter(s => s.music);
+    const skippedSeconds = (job.skippedRanges || []).reduce((total, r) => total + r.end - r.start, 0);
+    if (musicSegments.length === 0 && skippedSeconds < 1) return null;
+
+    return (
+        <p className="text-sm text-gray-400">
+            {musicSegments.length > 0 && (
+                <>Music at {musicSegments.map(s => `${formatClock(s.start)}–${formatClock(s.end)}`).join(', ')} is not fact-checked. </>
+            )}
+            {skippedSeconds >= 1 && <>{Math.round(skippedSeconds)}s of silence skipped.</>}
+        </p>
+    );
+}
+
+// Correct misheard names and numbers before analysis - per segment when the transcript is timed
+function TranscriptEditor({ job, onSave, onCancel }: {
+    job: api.VideoJob;
+    onSave: (edit: api.TranscriptionEdit) => Promise<void>;
+    onCancel: () => void;
+}) {
+    const [segmentTexts, setSegmentTexts] = useState(() => (job.segments || []).map(s => s.text));
+    const [text, setText] = useState(job.transcription || '');
+    const [saving, setSaving] = useState(false);
+    const segments = job.segments || [];
+
+    const save = async () => {
+        setSaving(true);
+        try {
+            if (segments.length > 0) {
+                const edits = segmentTexts
+                    .map((value, index) => ({ index, text: value }))
+                    .filter(edit => edit.text !== segments[edit.index].text);
+                if (edits.length > 0) await onSave({ segments: edits });
+                else onCancel();
+            } else {
+                await onSave({ transcription: text });
+            }
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    return (
+        <div className="space-y-3">
+            {segments.length > 0 ? (
+                <div className="max-h-96 overflow-y-auto space-y-2 pr-1">
+                    {segments.map((segment, index) => (
+                        <div key={index} className="flex gap-3 items-start">
+                            <span className="text-xs text-zinc-500 font-mono pt-2 w-12 shrink-0">{formatClock(segment.start)}</span>
+                            <textarea
+                                value={segmentTexts[index]}
+                                onChange={(e) => setSegmentTexts(texts => texts.map((t, i) => i === index ? e.target.value : t))}
+                                rows={Math.max(1, Math.ceil(segmentTexts[index].length / 80))}
+                                dir="auto"
+                                className="flex-1 bg-zinc-800/50 border border-zinc-700 rounded-lg px-3 py-1.5 text-sm text-zinc-200 focus:outline-none focus:ring-2 focus:ring-blue-500/50 resize-y"
+                            />
+                        </div>
+                    ))}
+                </div>
+            ) : (
+                <textarea
+                    value={text}
+                    onChange={(e) => setText(e.target.value)}
+                    rows={12}
+                    dir="auto"
+                    className="w-full bg-zinc-800/50 border border-zinc-700 rounded-lg px-3 py-2 text-sm text-zinc-200 focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+                />
+            )}
+            <p className="text-xs text-zinc-500">Clear a segment to remove it. The original transcript is kept and can be restored.</p>
+            <div className="flex gap-2">
+                <button
+                    onClick={save}
+                    disabled={saving}
+                    className="px-4 py-2 bg-blue-600 hover:bg-blue-500 disabled:opacity-50 text-white text-sm rounded-lg transition-colors"
+                >
+                    {saving ? 'Saving...' : 'Save corrections'}
+                </button>
+                <button onClick={onCancel} className="px-4 py-2 text-sm text-zinc-400 hover:text-zinc-200">
+                    Cancel
+                </button>
+            </div>
+        </div>
+    );
+}
+
+// Original transcript, with a switch to the translation when one was made
+function TranscriptPanel({ job, languageName, onEdit }: {
+    job: api.VideoJob;
+    languageName: (code?: string) => string;
+    onEdit?: (edit: api.TranscriptionEdit) => Promise<void>;
+}) {
+    const [showTranslation, setShowTranslation] = useState(false);
+    const [editing, setEditing] = useState(false);
+    const translated = showTranslation && job.translation;
+
+    const save = async (edit: api.TranscriptionEdit) => {
+        await onEdit?.(edit);
+        setEditing(false);
+    };
+
+    return (
+        <div className="bg-zinc-900/50 border border-zinc-800 rounded-2xl p-6">
+            <div className="flex items-center justify-between mb-3">
+                <h3 className="font-semibold text-zinc-400">
+                    Transcription
+                    {job.transcriptEdited && <span className="ml-2 text-xs font-normal text-amber-400">edited</span>}
+                </h3>
+                <span className="text-xs text-zinc-500">
+                    {job.transcriptSource && {
+                        manual_captions: 'From platform captions',
+                        auto_captions: 'From auto-generated captions',
+                        ai_transcription: 'AI transcription',
+                    }[job.transcriptSource]}
+                    {job.detectedLanguage && ` · ${languageName(job.detectedLanguage)}${job.spokenLanguage === 'auto' ? ' (detected)' : ''}`}
+                </span>
+            </div>
+            {editing && onEdit ? (
+                <TranscriptEditor job={job} onSave={save} onCancel={() => setEditing(false)} />
+            ) : (
+                <>
+                    {job.translation && (
+                        <div className="flex gap-2 mb-3 text-xs">
+                            <button
+                                onClick={() => setShowTranslation(false)}
+                                className={`px-3 py-1 rounded-full ${!translated ? 'bg-zinc-700 text-white' : 'text-zinc-400 hover:text-zinc-200'}`}
+                            >
+                                Original
+                            </button>
+                            <button
+                                onClick={() => setShowTranslation(true)}
+                                className={`px-3 py-1 rounded-full ${translated ? 'bg-zinc-700 text-white' : 'text-zinc-400 hover:text-zinc-200'}`}
+                            >
+                                {languageName(job.translation.language)} translation
+                            </button>
+                        </div>
+                    )}
+                    <p className="text-zinc-300 whitespace-pre-wrap max-h-60 overflow-y-auto text-sm leading-relaxed" dir="auto">
+                        {translated ? job.translation?.transcription : job.transcription}
+                    </p>
+                    <div className="flex flex-wrap items-center gap-4 mt-3 text-sm">
+                        {onEdit && (
+                            <button onClick={() => setEditing(true)} className="text-blue-400 hover:text-blue-300">
+                                ✎ Correct transcript
+                            </button>
+                        )}
+                        {onEdit && job.transcriptEdited && (
+                            <button onClick={() => save({ revert: true })} className="text-zinc-400 hover:text-zinc-200">
+                                Restore original
+                            </button>
+                        )}
+                        <span className="flex items-center gap-2 ml-auto text-xs text-zinc-500">
+                            Download
+                            {(['srt', 'vtt', 'txt', 'json'] as api.TranscriptFormat[])
+                                // Subtitle formats need timestamps
+                                .filter(format => format === 'txt' || format === 'json' || (job.segments?.length ?? 0) > 0)
+                                .map(format => (
+                                    <a
+                                        key={format}
+                                        href={api.getTranscriptUrl(job.id, format, !!translated)}
+                                        download
+                                        className="px-2 py-1 rounded-md bg-zinc-800 text-zinc-300 hover:bg-zinc-700 uppercase"
+                                    >
+                                        {format}
+                                    </a>
+                                ))}
+                        </span>
+                    </div>
+                </>
+            )}
+        </div>
+    );
+}
+
+// Rename the speakers detected in the transcript (e.g. "Speaker 2" -> the interviewee's name)
+function SpeakerEditor({ speakers, onSave }: { speakers: api.Speaker[]; onSave: (names: Record<string, string>) => Promise<void> }) {
+    const [names, setNames] = useState<Record<string, string>>(() =>
+        Object.fromEntries(speakers.map(s => [s.label, s.name === s.label ? '' : s.name]))
+    );
+    const [saving, setSaving] = useState(false);
+
+    const handleSave = async () => {
+        setSaving(true);
+        try {
+            await onSave(names);
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    return (
+        <div className="bg-zinc-900/50 border border-zinc-800 rounded-2xl p-6">
+            <h3 className="font-semibold text-zinc-400 mb-3">Speakers</h3>
+            <div className="space-y-2">
+                {speakers.map(speaker => (
+                    <div key={speaker.label} className="flex items-center gap-3">
+                        <span className="text-sm text-zinc-500 w-24 shrink-0">{speaker.label}</span>
+                        <input
+                            type="text"
+                            value={names[speaker.label] || ''}
+                            onChange={(e) => setNames({ ...names, [speaker.label]: e.target.value })}
+                            placeholder="Name (optional)"
+                            className="flex-1 bg-zinc-950 border border-zinc-800 rounded-lg px-3 py-2 text-sm text-white placeholder-zinc-600 focus:outline-none focus:border-blue-500"
+                        />
+                    </div>
+                ))}
+            </div>
+            <button
+                onClick={handleSave}
+                disabled={saving}
+                className="mt-3 text-sm bg-zinc-800 hover:bg-zinc-700 disabled:opacity-50 text-white px-4 py-2 rounded-lg transition-colors"
+            >
+                {saving ? 'Saving...' : 'Save names'}
+            </button>
+        </div>
+    );
+}
+
 // ClaimCard component with improved design
 function ClaimCard({ claim }: { claim: api.Claim }) {
     const statusConfig = {
@@ -85,37 +396,37 @@ function ClaimCard({ claim }: { claim: api.Claim }) {
                     <div className="pt-3 border-t border-zinc-800">
                         <p className="text-xs text-zinc-500 font-semibold uppercase mb-2">📚 Sources</p>
                         <div className="flex flex-wrap gap-2">
-                            {claim.sources.map((source, idx) => {
-                                const isUrl = source.startsWith('http');
-                                if (isUrl) {
-                                    try {
-                                        const hostname = new URL(source).hostname.replace('www.', '');
-                                        return (
+                            {claim.sources.map(source => <SourceChip key={source.url} source={source} />)}
+                        </div>
+                    </div>
+                )}
+
+                {/* Evidence - passages retrieved for the verdict */}
+                {claim.evidence && claim.evidence.length > 0 && (
+                    <div className="pt-3 border-t border-zinc-800">
+                        <p className="text-xs text-zinc-500 font-semibold uppercase mb-2">🔎 Evidence</p>
+                        <ul className="space-y-2">
+                            {claim.evidence.map((passage, idx) => (
+                                <li key={idx} className="text-xs">
+                                    <div className="flex items-center gap-2">
+                                        {passage.url ? (
                                             <a
-                                                key={idx}
-                                                href={source}
+                                                href={passage.url}
                                                 target="_blank"
                                                 rel="noopener noreferrer"
-                                                className="inline-flex items-center gap-1 text-xs bg-blue-500/20 hover:bg-blue-500/30 text-blue-300 px-3 py-1.5 rounded-lg transition-colors"
+                                                className="text-blue-300 hover:text-blue-200 font-medium"
                                             >
-                                                🔗 {hostname}
+                                                {passage.title}
                                             </a>
-                                        );
-                                    } catch {
-                                        return (
-                                            <span key={idx} className="text-xs bg-zinc-800 text-zinc-400 px-3 py-1.5 rounded-lg">
-                                                {source}
-                                            </span>
-                                        );
-                                    }
-                                }
-                                return (
-                                    <span key={idx} className="text-xs bg-zinc-800 text-zinc-400 px-3 py-1.5 rounded-lg">
-                                        📄 {source}
-                                    </span>
-                                );
-                            })}
-                        </div>
+                                        ) : (
+                                            <span className="text-zinc-300 font-medium">{passage.title}</span>
+                                        )}
+                                        {passage.stance && <EvidenceStanceBadge stance={passage.stance} />}
+                                    </div>
+                                    <p className="text-zinc-500 mt-0.5 line-clamp-2">{passage.snippet}</p>
+                                </li>
+                            ))}
+                        </ul>
                     </div>
                 )}
             </div>
@@ -126,16 +437,27 @@ function ClaimCard({ claim }: { claim: api.Claim }) {
 function App() {
     const [state, setState] = useState<AppState>({ phase: 'input' });
     const [url, setUrl] = useState('');
+    const [file, setFile] = useState<File | null>(null);
     const [language, setLanguage] = useState('en');
+    const [spokenLanguage, setSpokenLanguage] = useState('auto');
+    const [translateTranscript, setTranslateTranscript] = useState(false);
+    const [analyzeVisuals, setAnalyzeVisuals] = useState(false);
     const [languages, setLanguages] = useState<{ code: string; name: string; nativeName: string }[]>([]);
+    const [platforms, setPlatforms] = useState<string[]>(['YouTube', 'TikTok', 'Instagram', 'X/Twitter', 'Facebook']);
     const pollRef = useRef<number | null>(null);
     const isAnalyzingRef = useRef(false); // Track if we're in analysis mode
+    const fileInputRef = useRef<HTMLInputElement | null>(null);
 
     // Load languages on mount
     useEffect(() => {
         api.getLanguages().then(setLanguages).catch(console.error);
     }, []);
 
+    // Load supported platforms from the backend registry
+    useEffect(() => {
+        api.getPlatforms().then(list => setPlatforms(list.map(p => p.name))).catch(console.error);
+    }, []);
+
     // Cleanup polling on unmount
     useEffect(() => {
         return () => {
@@ -197,13 +519,12 @@ function App() {
         }, 2000);
     }, []);
 
-    const handleSubmit = async (e: React.FormEvent) => {
-        e.preventDefault();
-        if (!url.trim()) return;
-
+    const startJob = async (force = false) => {
         try {
             isAnalyzingRef.current = false;
-            const { id } = await api.startProcessing(url, language);
+            const { id } = file
+                ? await api.uploadMedia(file, language, { spokenLanguage, translateTranscript, analyzeVisuals })
+                : await api.startProcessing(url, language, { force, spokenLanguage, translateTranscript, analyzeVisuals });
             setState({
                 phase: 'processing',
                 job: {
@@ -219,6 +540,12 @@ function App() {
         }
     };
 
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!file && !url.trim()) return;
+        await startJob();
+    };
+
     const handleAnalyze = async () => {
         if (state.phase !== 'ready_to_analyze') return;
 
@@ -233,10 +560,53 @@ function App() {
         }
     };
 
+    const handleRenameSpeakers = async (names: Record<string, string>) => {
+        if (state.phase !== 'ready_to_analyze') return;
+
+        try {
+            await api.renameSpeakers(state.job.id, names);
+            // Reload the transcript - it now uses the new names
+            const job = await api.getStatus(state.job.id);
+            setState({ phase: 'ready_to_analyze', job });
+        } catch (err: any) {
+            console.error('Failed to rename speakers:', err);
+        }
+    };
+
+    const handleEditTranscription = async (edit: api.TranscriptionEdit) => {
+        if (state.phase !== 'ready_to_analyze') return;
+
+        try {
+            await api.updateTranscription(state.job.id, edit);
+            // Reload the job - analysis runs on the corrected transcript
+            const job = await api.getStatus(state.job.id);
+            setState({ phase: 'ready_to_analyze', job });
+        } catch (err: any) {
+            console.error('Failed to save transcript:', err);
+        }
+    };
+
+    const handleRetryTranscription = async () => {
+        if (state.phase !== 'ready_to_analyze') return;
+
+        try {
+            isAnalyzingRef.current = false;
+            await api.retryTranscription(state.job.id);
+            setState({ phase: 'processing', job: { ...state.job, status: 'transcribing', statusMessage: 'Retrying missing parts...' } });
+            pollStatus(state.job.id);
+        } catch (err: any) {
+            setState({ phase: 'error', message: err.message || 'Failed to retry transcription' });
+        }
+    };
+
+    const languageName = (code?: string) =>
+        languages.find(l => l.code === code || l.code === code?.split('-')[0])?.name || code || '';
+
     const handleReset = () => {
         if (pollRef.current) clearInterval(pollRef.current);
         setState({ phase: 'input' });
         setUrl('');
+        setFile(null);
     };
 
     return (
@@ -260,7 +630,7 @@ function App() {
                     <div className="bg-zinc-900/50 border border-zinc-800 rounded-2xl p-6 md:p-8">
                         {/* Supported Platforms */}
                         <div className="flex flex-wrap justify-center gap-4 mb-8">
-                            {['YouTube', 'TikTok', 'Instagram', 'X/Twitter', 'Facebook'].map(platform => (
+                            {platforms.map(platform => (
                                 <span key={platform} className="px-3 py-1.5 bg-zinc-800/50 border border-zinc-700 rounded-lg text-zinc-400 text-sm">
                                     {platform}
                                 </span>
@@ -279,8 +649,9 @@ function App() {
                                         value={url}
                                         onChange={(e) => setUrl(e.target.value)}
                                         placeholder="https://..."
-                                        className="w-full bg-zinc-800/50 border border-zinc-700 rounded-xl px-5 py-4 text-lg focus:outline-none focus:ring-2 focus:ring-emerald-500/50 focus:border-emerald-500 placeholder-zinc-500"
-                                        required
+                                        className="w-full bg-zinc-800/50 border border-zinc-700 rounded-xl px-5 py-4 text-lg focus:outline-none focus:ring-2 focus:ring-emerald-500/50 focus:border-emerald-500 placeholder-zinc-500 disabled:opacity-50"
+                                        required={!file}
+                                        disabled={!!file}
                                     />
                                     <span className="absolute right-4 top-1/2 -translate-y-1/2 text-zinc-500">
                                         🔗
@@ -288,6 +659,37 @@ function App() {
                                 </div>
                             </div>
 
+                            {/* File Upload - for clips without a public URL */}
+                            <div>
+                                <label className="block text-sm font-semibold text-zinc-300 mb-2">
+                                    Or upload a file
+                                </label>
+                                <div className="flex items-center gap-3">
+                                    <input
+                                        ref={fileInputRef}
+                                        type="file"
+                                        accept="audio/*,video/*"
+                                        onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+                                        className="flex-1 text-sm text-zinc-400 file:mr-4 file:px-4 file:py-2 file:rounded-lg file:border-0 file:bg-zinc-800 file:text-zinc-300 hover:file:bg-zinc-700 file:cursor-pointer"
+                                    />
+                                    {file && (
+                                        <button
+                                            type="button"
+                                            onClick={() => {
+                                                setFile(null);
+                                                if (fileInputRef.current) fileInputRef.current.value = '';
+                                            }}
+                                            className="text-xs text-zinc-500 hover:text-zinc-300"
+                                        >
+                                            Clear
+                                        </button>
+                                    )}
+                                </div>
+                                <p className="text-xs text-zinc-500 mt-2">
+                                    Audio or video file, e.g. a WhatsApp forward or screen recording
+                                </p>
+                            </div>
+
                             {/* Language Select */}
                             <div>
                                 <label className="block text-sm font-semibold text-zinc-300 mb-2">
@@ -317,6 +719,43 @@ function App() {
                                 </p>
                             </div>
 
+                            {/* Spoken Language Select */}
+                            <div>
+                                <label className="block text-sm font-semibold text-zinc-300 mb-2">
+                                    Spoken Language
+                                </label>
+                                <select
+                                    value={spokenLanguage}
+                                    onChange={(e) => setSpokenLanguage(e.target.value)}
+                                    className="w-full bg-zinc-800/50 border border-zinc-700 rounded-xl px-5 py-4 focus:outline-none focus:ring-2 focus:ring-emerald-500/50 appearance-none cursor-pointer"
+                                >
+                                    <option value="auto">Auto-detect</option>
+                                    {languages.map((lang) => (
+                                        <option key={lang.code} value={lang.code}>
+                                            {lang.nativeName} ({lang.name})
+                                        </option>
+                                    ))}
+                                </select>
+                                <label className="flex items-center gap-2 text-xs text-zinc-400 mt-2 cursor-pointer">
+                                    <input
+                                        type="checkbox"
+                                        checked={translateTranscript}
+                                        onChange={(e) => setTranslateTranscript(e.target.checked)}
+                                        className="accent-emerald-500"
+                                    />
+                                    Also translate the transcript to the response language
+                                </label>
+                                <label className="flex items-center gap-2 text-xs text-zinc-400 mt-2 cursor-pointer">
+                                    <input
+                                        type="checkbox"
+                                        checked={analyzeVisuals}
+                                        onChange={(e) => setAnalyzeVisuals(e.target.checked)}
+                                        className="accent-emerald-500"
+                                    />
+                                    Also check text shown on screen (captions, charts, screenshots)
+                                </label>
+                            </div>
+
                             {/* Submit Button */}
                             <button
                                 type="submit"
@@ -373,6 +812,7 @@ function App() {
                         </div>
 
                         <p className="text-zinc-500">{state.job.progress}% complete</p>
+                        {state.job.downloadProgress && <TransferDetails transfer={state.job.downloadProgress} />}
                     </div>
                 )}
 
@@ -384,15 +824,35 @@ function App() {
                                 ✓ Transcription Complete
                             </div>
                             <h2 className="text-2xl font-bold">{state.job.title || 'Video Ready'}</h2>
+                            {state.job.batch && (
+                                <p className="text-zinc-400 mt-2">
+                                    {state.job.statusMessage} ({state.job.batch.moreEntries ? `more than ${state.job.batch.childIds.length}` : state.job.batch.totalEntries} found in total)
+                                </p>
+                            )}
+                            {state.job.cache?.hit && (
+                                <p className="text-zinc-500 text-sm mt-2">
+                                    Loaded from a previous run
+                                    {state.job.cache.cachedAt && ` (${new Date(state.job.cache.cachedAt).toLocaleString()})`}
+                                    {' · '}
+                                    <button onClick={() => startJob(true)} className="text-blue-400 hover:text-blue-300 underline">
+                                        Process again
+                                    </button>
+                                </p>
+                            )}
                         </div>
 
+                        {state.job.missingRanges && state.job.missingRanges.length > 0 && (
+                            <MissingRangesNotice ranges={state.job.missingRanges} onRetry={handleRetryTranscription} />
+                        )}
+
+                        <NonSpeechNotice job={state.job} />
+
                         {state.job.transcription && (
-                            <div className="bg-zinc-900/50 border border-zinc-800 rounded-2xl p-6">
-                                <h3 className="font-semibold text-zinc-400 mb-3">Transcription</h3>
-                                <p className="text-zinc-300 whitespace-pre-wrap max-h-60 overflow-y-auto text-sm leading-relaxed">
-                                    {state.job.transcription}
-                                </p>
-                            </div>
+                            <TranscriptPanel job={state.job} languageName={languageName} onEdit={handleEditTranscription} />
+                        )}
+
+                        {state.job.speakers && state.job.speakers.length > 0 && (
+                            <SpeakerEditor speakers={state.job.speakers} onSave={handleRenameSpeakers} />
                         )}
 
                         <button
@@ -410,14 +870,19 @@ function App() {
                     const falseClaims = state.job.claims.filter(c => c.status === 'false');
                     const misleadingClaims = state.job.claims.filter(c => c.status === 'partially_true');
                     const problemClaims = [...falseClaims, ...misleadingClaims];
+                    const speakerNames = Object.fromEntries((state.job.claimsBySpeaker || []).map(g => [g.label, g.name]));
 
                     // Collect sources ONLY from wrong/misleading claims
                     const allSources = problemClaims
                         .flatMap(c => c.sources || [])
-                        .filter((s, i, arr) => arr.indexOf(s) === i); // unique only
+                        .filter((s, i, arr) => arr.findIndex(other => other.url === s.url) === i); // unique only
 
                     return (
                         <div className="space-y-6">
+                            {state.job.missingRanges && state.job.missingRanges.length > 0 && (
+                                <MissingRangesNotice ranges={state.job.missingRanges} />
+                            )}
+
                             {/* Score Card */}
                             <div className="bg-gradient-to-br from-zinc-900 via-zinc-900 to-zinc-950 border border-zinc-800 rounded-2xl p-6">
                                 <div className="flex items-center justify-between">
@@ -443,6 +908,14 @@ function App() {
                                                         '✗ Low Credibility'}
                                             </h2>
                                             <p className="text-zinc-500 text-sm">{state.job.claims.length} claims analyzed</p>
+                                            {state.job.metadata && (state.job.metadata.channel || state.job.metadata.uploader || state.job.metadata.uploadDate) && (
+                                                <p className="text-zinc-600 text-xs mt-1">
+                                                    {[
+                                                        state.job.metadata.channel || state.job.metadata.uploader,
+                                                        state.job.metadata.uploadDate,
+                                                    ].filter(Boolean).join(' · ')}
+                                                </p>
+                                            )}
                                         </div>
                                     </div>
                                     <div className="flex gap-2">
@@ -459,6 +932,27 @@ function App() {
                                 </div>
                             </div>
 
+                            {/* Per-speaker breakdown - shows whether the creator or someone they quote made the false claims */}
+                            {state.job.claimsBySpeaker && state.job.claimsBySpeaker.length > 1 && (
+                                <div className="bg-zinc-900/50 border border-zinc-800 rounded-xl p-5">
+                                    <h3 className="text-sm font-bold text-zinc-400 uppercase tracking-wider mb-3">By Speaker</h3>
+                                    <div className="space-y-2">
+                                        {state.job.claimsBySpeaker.map(group => {
+                                            const wrong = group.claims.filter(c => c.status === 'false' || c.status === 'partially_true').length;
+                                            return (
+                                                <div key={group.label || 'unattributed'} className="flex items-center justify-between text-sm">
+                                                    <span className="text-white">{group.name}</span>
+                                                    <span className="text-zinc-500">
+                                                        {group.claims.length} claims
+                                                        {wrong > 0 && <span className="text-red-400"> · {wrong} false or misleading</span>}
+                                                    </span>
+                                                </div>
+                                            );
+                                        })}
+                                    </div>
+                                </div>
+                            )}
+
                             {/* Two Column Layout */}
                             <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
                                 {/* LEFT: Wrong & Misleading Claims */}
@@ -477,6 +971,10 @@ function App() {
                                                         }`}>
                                                         {claim.status === 'false' ? 'FALSE' : 'MISLEADING'}
                                                     </span>
+                                                    {claim.speaker && (
+                                                        <span className="text-xs text-zinc-500">{speakerNames[claim.speaker] || claim.speaker}</span>
+                                                    )}
+                                                    {claim.source === 'on_screen' && <OnScreenBadge claim={claim} />}
                                                 </div>
                                                 <p className="text-white text-sm mb-3">"{claim.text}"</p>
 
@@ -510,7 +1008,13 @@ function App() {
                                             <div key={claim.id} className="bg-emerald-500/5 border border-emerald-500/20 rounded-xl p-4">
                                                 <div className="flex items-start gap-2">
                                                     <span className="text-emerald-400 mt-0.5">✓</span>
-                                                    <p className="text-white text-sm">"{claim.text}"</p>
+                                                    <p className="text-white text-sm">
+                                                        "{claim.text}"
+                                                        {claim.speaker && (
+                                                            <span className="block text-xs text-zinc-500 mt-1">{speakerNames[claim.speaker] || claim.speaker}</span>
+                                                        )}
+                                                        {claim.source === 'on_screen' && <OnScreenBadge claim={claim} />}
+                                                    </p>
                                                 </div>
                                             </div>
                                         ))
@@ -525,32 +1029,7 @@ function App() {
                                         📚 Sources ({allSources.length})
                                     </h3>
                                     <div className="flex flex-wrap gap-2">
-                                        {allSources.map((source, idx) => {
-                                            const isUrl = source.startsWith('http');
-                                            if (isUrl) {
-                                                try {
-                                                    const hostname = new URL(source).hostname.replace('www.', '');
-                                                    return (
-                                                        <a
-                                                            key={idx}
-                                                            href={source}
-                                                            target="_blank"
-                                                            rel="noopener noreferrer"
-                                                            className="inline-flex items-center gap-1 text-sm bg-blue-500/10 hover:bg-blue-500/20 text-blue-400 px-3 py-1.5 rounded-lg transition-colors"
-                                                        >
-                                                            🔗 {hostname}
-                                                        </a>
-                                                    );
-                                                } catch {
-                                                    return <span key={idx} className="text-sm bg-zinc-800 text-zinc-400 px-3 py-1.5 rounded-lg">{source}</span>;
-                                                }
-                                            }
-                                            return (
-                                                <span key={idx} className="text-sm bg-zinc-800 text-zinc-400 px-3 py-1.5 rounded-lg">
-                                                    📄 {source}
-                                                </span>
-                                            );
-                                        })}
+                                        {allSources.map(source => <SourceChip key={source.url} source={source} />)}
                                     </div>
                                 </div>
                             )}
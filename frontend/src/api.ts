@@ -12,7 +12,88 @@ export interface Claim {
     explanation: string;
     wrongPart?: string;
     correction?: string;
-    sources?: string[];
+    sources?: SourceLink[];
+    speaker?: string;
+    source?: 'speech' | 'on_screen';
+    frameTimestamp?: number;
+    evidence?: EvidencePassage[];
+}
+
+export interface SourceLink {
+    url: string;
+    title?: string;
+    domain: string;
+    tier: 'trusted' | 'neutral' | 'low';
+    verified: boolean;
+}
+
+export interface EvidencePassage {
+    provider: string;
+    title: string;
+    url?: string;
+    snippet: string;
+    stance?: 'supports' | 'refutes' | 'neutral';
+}
+
+export interface OnScreenText {
+    start: number;
+    end: number;
+    text: string;
+}
+
+export interface Speaker {
+    label: string;
+    name: string;
+}
+
+export interface SpeakerClaims extends Speaker {
+    claims: Claim[];
+}
+
+export interface VideoMetadata {
+    uploader?: string;
+    uploaderId?: string;
+    channel?: string;
+    channelId?: string;
+    uploadDate?: string;
+    description?: string;
+    viewCount?: number;
+    likeCount?: number;
+    thumbnailUrl?: string;
+    webpageUrl?: string;
+}
+
+export interface TranscriptSegment {
+    start: number;
+    end: number;
+    text: string;
+    speaker?: string;
+    music?: boolean;
+}
+
+export interface TranscriptTranslation {
+    language: string;
+    transcription: string;
+    segments: TranscriptSegment[];
+}
+
+export interface MissingRange {
+    start: number;
+    end: number;
+    reason?: string;
+}
+
+export interface TimeRange {
+    start: number;
+    end: number;
+}
+
+export interface DownloadProgress {
+    percent: number;
+    downloadedBytes?: number;
+    totalBytes?: number;
+    speedBytesPerSecond?: number;
+    etaSeconds?: number;
 }
 
 export interface VideoJob {
@@ -21,15 +102,54 @@ export interface VideoJob {
     progress: number;
     statusMessage: string;
     transcription?: string;
+    segments?: TranscriptSegment[];
+    translation?: TranscriptTranslation;
+    transcriptEdited?: boolean;
+    originalTranscription?: string;
+    language?: string;
+    spokenLanguage?: string;
+    detectedLanguage?: string;
+    missingRanges?: MissingRange[];
+    skippedRanges?: TimeRange[];
+    onScreenText?: OnScreenText[];
+    speakers?: Speaker[];
+    claimsBySpeaker?: SpeakerClaims[];
+    transcriptSource?: 'manual_captions' | 'auto_captions' | 'ai_transcription';
+    transcriptionProvider?: string;
     title?: string;
     platform?: string;
+    metadata?: VideoMetadata;
     overallScore?: number;
     claims?: Claim[];
     error?: string;
+    downloadProgress?: DownloadProgress;
+    cache?: { hit: boolean; key: string; cachedAt?: string; analysisReused: boolean };
+    batch?: { childIds: string[]; totalEntries: number; moreEntries?: boolean };
 }
 
-export async function startProcessing(url: string, language: string): Promise<{ id: string }> {
-    const res = await axios.post(`${API_BASE}/video/process`, { url, language });
+export interface LanguageOptions {
+    spokenLanguage?: string; // 'auto' to detect
+    translateTranscript?: boolean;
+    analyzeVisuals?: boolean; // also fact-check text shown on screen
+}
+
+export async function startProcessing(
+    url: string,
+    language: string,
+    options: LanguageOptions & { force?: boolean; transcriptionProvider?: string } = {}
+): Promise<{ id: string }> {
+    const res = await axios.post(`${API_BASE}/video/process`, { url, responseLanguage: language, ...options });
+    return res.data;
+}
+
+export async function uploadMedia(file: File, language: string, options: LanguageOptions = {}): Promise<{ id: string }> {
+    const form = new FormData();
+    form.append('file', file);
+    form.append('responseLanguage', language);
+    if (options.spokenLanguage) form.append('spokenLanguage', options.spokenLanguage);
+    if (options.translateTranscript) form.append('translateTranscript', 'true');
+    if (options.analyzeVisuals) form.append('analyzeVisuals', 'true');
+    const res = await axios.post(`${API_BASE}/video/upload`, form);
     return res.data;
 }
 
@@ -42,6 +162,31 @@ export async function startAnalysis(id: string): Promise<void> {
     await axios.post(`${API_BASE}/video/${id}/analyze`, { useInternet: true });
 }
 
+export async function renameSpeakers(id: string, speakers: Record<string, string | null>): Promise<Speaker[]> {
+    const res = await axios.put(`${API_BASE}/video/${id}/speakers`, { speakers });
+    return res.data.speakers;
+}
+
+export async function retryTranscription(id: string): Promise<void> {
+    await axios.post(`${API_BASE}/video/${id}/retry`);
+}
+
+export type TranscriptionEdit =
+    | { transcription: string }
+    | { segments: Array<{ index: number; text: string }> }
+    | { revert: true };
+
+export async function updateTranscription(id: string, edit: TranscriptionEdit): Promise<void> {
+    await axios.put(`${API_BASE}/video/${id}/transcription`, edit);
+}
+
+export type TranscriptFormat = 'srt' | 'vtt' | 'txt' | 'json';
+
+// Plain link so the browser downloads the file with the server's file name
+export function getTranscriptUrl(id: string, format: TranscriptFormat, translated = false): string {
+    return `${API_BASE}/video/${id}/transcript?format=${format}${translated ? '&translated=true' : ''}`;
+}
+
 export async function getResults(id: string): Promise<VideoJob> {
     const res = await axios.get(`${API_BASE}/video/${id}/results`);
     return res.data;
@@ -49,5 +194,10 @@ export async function getResults(id: string): Promise<VideoJob> {
 
 export async function getLanguages(): Promise<{ code: string; name: string; nativeName: string }[]> {
     const res = await axios.get(`${API_BASE}/languages`);
-    return res.data;
+    return res.data.languages;
+}
+
+export async function getPlatforms(): Promise<{ id: string; name: string; domains: string[] }[]> {
+    const res = await axios.get(`${API_BASE}/platforms`);
+    return res.data.platforms;
 }